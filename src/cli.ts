@@ -0,0 +1,90 @@
+import path from 'path';
+import { DATA_FORMATS, DataFormat, isDataFormat } from './formats.js';
+
+// Subcommands of the query-assistant binary. serve runs the MCP server; the others administer a
+// collection offline and exit.
+export const CLI_COMMANDS = ['serve', 'import', 'export', 'list', 'search', 'stats', 'dedupe', 'reindex'] as const;
+export type CliCommand = typeof CLI_COMMANDS[number];
+
+export const isCliCommand = (value: any): value is CliCommand => CLI_COMMANDS.includes(value);
+
+export const CLI_USAGE = `Usage: query-assistant [command] [options]
+
+Commands:
+  serve                   Run the MCP server (default)
+  import <file>           Import training examples from a jsonl, csv or yaml file (--format, --dry-run)
+  export                  Export training examples to stdout or --output <file> (--format, --domain)
+  list                    List training examples (--limit, --cursor, --search, --regex, --domain, --language,
+                          --complexity, --sort created_at|domain|usage, --order asc|desc)
+  search <question>       Find similar training examples (--limit, --threshold, --mode, --language, --domain)
+  stats                   Show example counts, index health, embedding cache and versions
+  dedupe                  Remove exact duplicate examples, keeping the oldest (--dry-run to only list them)
+  reindex                 Re-embed every example into a fresh vector index
+
+Options shared by all commands:
+  --data-dir <dir>        Data directory (DATA_DIR)
+  --collection <name>     Collection to use (default: default)
+  --json                  Print the result as JSON instead of text
+  --help                  Show this help
+
+A command exits with status 1 when it fails.`;
+
+// A tool result, as printed by a command
+export interface CommandResult {
+  content: { type: string; text: string }[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+const FORMAT_EXTENSIONS: { [extension: string]: DataFormat } = {
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+  '.csv': 'csv',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+// --format when given, otherwise the format the file extension stands for
+export function resolveDataFormat(format: string | undefined, file: string | undefined, fallback?: DataFormat): DataFormat {
+  if (format !== undefined) {
+    if (!isDataFormat(format)) {
+      throw new Error(`Unknown format "${format}". Expected one of: ${DATA_FORMATS.join(', ')}`);
+    }
+    return format;
+  }
+  const inferred = file ? FORMAT_EXTENSIONS[path.extname(file).toLowerCase()] : undefined;
+  if (inferred || fallback) {
+    return (inferred || fallback)!;
+  }
+  throw new Error(`Cannot tell the format of ${file} from its extension. Pass --format (${DATA_FORMATS.join(', ')})`);
+}
+
+export function parseNumberOption(flag: string, value: string | undefined, integer = false): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+    throw new Error(`Invalid ${flag} "${value}". Expected ${integer ? 'an integer' : 'a number'}`);
+  }
+  return parsed;
+}
+
+export function parseChoiceOption<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value !== undefined && !choices.includes(value as T)) {
+    throw new Error(`Invalid ${flag} "${value}". Expected one of: ${choices.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+// Text goes to stdout; with --json the structured result does, and a failure without one goes to stderr
+export function printResult(result: CommandResult, json: boolean) {
+  const text = result.content.map(item => item.text).join('\n');
+  if (json && result.structuredContent !== undefined) {
+    console.log(JSON.stringify(result.structuredContent, null, 2));
+  } else if (result.isError) {
+    console.error(text);
+  } else {
+    console.log(text);
+  }
+}
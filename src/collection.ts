@@ -0,0 +1,1793 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import pkg from 'hnswlib-node';
+const { HierarchicalNSW } = pkg;
+import fs from 'fs-extra';
+import path from 'path';
+import { EmbeddingProviderName } from './embeddings.js';
+import { CachedEmbeddingProvider } from './embeddingCache.js';
+import { ImportedExample, ParsedRow } from './formats.js';
+import { QUERY_LANGUAGES, QueryLanguage, detectQueryLanguage } from './language.js';
+import { clusterPairs, normalizeQuery, querySimilarity } from './duplicates.js';
+import { matchesFilters } from './filters.js';
+import { Bm25Index } from './lexical.js';
+import { extractTemplate } from './templates.js';
+import {
+  ChangeLogEntry,
+  DirectoryLock,
+  appendChangeLog,
+  compactChangeLog,
+  readChangeLog,
+  writeFileAtomic,
+  writeJsonAtomic,
+} from './persistence.js';
+import {
+  ExampleFeedback,
+  ExampleVerification,
+  FeedbackEntry,
+  SearchFilters,
+  SearchMode,
+  SimilarExample,
+  TrainingExample,
+} from './types.js';
+import { QuerySyntaxError, formatSyntaxErrors, validateQuerySyntax } from './validation.js';
+import {
+  CURRENT_VERSION,
+  VersionDiff,
+  VersionManifest,
+  diffExamples,
+  diffIsEmpty,
+  listVersions,
+  pruneVersions,
+  readVersion,
+  saveVersion,
+  versionDir,
+  withRecordedOutcomes,
+} from './versions.js';
+
+// Type for HierarchicalNSW
+type HierarchicalNSWType = InstanceType<typeof HierarchicalNSW>;
+
+const INITIAL_MAX_ELEMENTS = 10000;
+// Grow the index (doubling it) once it is this full
+const INDEX_GROWTH_THRESHOLD = 0.9;
+export const EMBEDDING_BATCH_SIZE = 50;
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+// Weight of query text relative to the question when lexical search includes it
+const QUERY_TEXT_WEIGHT = 0.5;
+// Near-duplicate detection defaults and the number of vector neighbours checked per example
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+export const NEAR_DUPLICATE_QUERY_WEIGHT = 0.5;
+const NEAR_DUPLICATE_NEIGHBORS = 10;
+// Share of the search score that feedback can add or take away, and the number of neutral votes
+// every example starts with, so a single vote does not swing its ranking
+export const DEFAULT_FEEDBACK_WEIGHT = 0.2;
+const FEEDBACK_PRIOR = 2;
+// A corrected query means the examples were only partly right
+const CORRECTED_FEEDBACK_VALUE = -0.5;
+
+// Indexes written before the metadata file existed were always built with OpenAI text-embedding-3-small
+const LEGACY_INDEX_META: IndexMeta = {
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+  dimension: 1536,
+};
+
+interface IndexMeta {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimension: number;
+  // HNSW label of each example ID; indexes without it use the row order of training_data.json
+  labels?: { [id: string]: number };
+  // HNSW label of each alternate question, per example ID; indexes without it have none indexed
+  alternate_labels?: { [id: string]: { [question: string]: number } };
+  next_label?: number;
+  // Last change log entry included in the snapshot
+  log_seq?: number;
+}
+
+export interface ImportRowReport {
+  row: number;
+  status: 'added' | 'would_add' | 'duplicate' | 'invalid' | 'error';
+  id?: string;
+  message?: string;
+}
+
+export interface IndexCheckReport {
+  exampleCount: number;
+  indexedCount: number; // live (not deleted) points in the HNSW index
+  phrasingCount: number; // questions plus alternate questions, each of which should have a point
+  capacity: number;
+  indexDimension: number;
+  expectedDimension: number;
+  orphanLabels: number[]; // points in the index that belong to no training example
+  missingVectors: string[]; // training examples without a point in the index
+}
+
+export interface NearDuplicateCluster {
+  survivor: TrainingExample;
+  duplicates: { example: TrainingExample; similarity: number }[];
+}
+
+// Every phrasing of an example that gets a vector: its question, then its alternate questions
+const phrasingsOf = (example: TrainingExample) => [example.question, ...(example.alternate_questions || [])];
+
+const UNKNOWN_LANGUAGE_MESSAGE = `Cannot tell the query language; fix the query or give its language (${QUERY_LANGUAGES.join(', ')})`;
+
+const invalidQueryMessage = (example: TrainingExample, errors: QuerySyntaxError[]) =>
+  `Invalid ${example.language ? `${example.language} ` : ''}query: ${formatSyntaxErrors(errors)}`;
+
+// Metadata given by a caller, without the fields only the server records (see recordFeedback and
+// recordVerifications)
+function callerMetadata(metadata: any): any {
+  if (!metadata) {
+    return metadata;
+  }
+  const { feedback, verification, ...rest } = metadata;
+  return rest;
+}
+
+// Phrasings are compared like duplicate questions: trimmed and lowercased
+const phrasingKey = (question: string) => question.toLowerCase().trim();
+
+// Alternate questions without blanks, repeats and phrasings of the question itself
+function uniqueAlternates(question: string, alternates: string[]): string[] {
+  const seen = new Set([phrasingKey(question)]);
+  return alternates.filter(alternate => {
+    const key = phrasingKey(alternate);
+    if (key === '' || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// BM25 documents of alternate questions are keyed "<example ID><separator><alternate question>"
+const LEXICAL_KEY_SEPARATOR = '\u0000';
+const lexicalKey = (id: string, question?: string) => question === undefined ? id : `${id}${LEXICAL_KEY_SEPARATOR}${question}`;
+
+// Two examples are duplicates when their question and query match after trimming and lowercasing
+export const duplicateKey = (question: string, query: string) =>
+  `${question.toLowerCase().trim()}|||${query.toLowerCase().trim()}`;
+
+// Net feedback of an example in [-1, 1], damped by FEEDBACK_PRIOR; undefined without feedback
+export function feedbackScore(feedback: ExampleFeedback | undefined): number | undefined {
+  if (!feedback) {
+    return undefined;
+  }
+  const votes = feedback.helpful + feedback.not_helpful + feedback.corrected;
+  return (feedback.helpful - feedback.not_helpful + CORRECTED_FEEDBACK_VALUE * feedback.corrected) / (votes + FEEDBACK_PRIOR);
+}
+
+// Scale each score by up to +/- weight according to the example's feedback, then re-rank
+function applyFeedback(hits: SimilarExample[], weight: number): SimilarExample[] {
+  if (weight === 0) {
+    return hits;
+  }
+  return hits
+    .map(hit => {
+      const score = feedbackScore(hit.example.metadata?.feedback);
+      return score === undefined ? hit : { ...hit, similarity: hit.similarity * (1 + weight * score), feedbackScore: score };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+// Examples added, removed or changed in any way (recorded outcomes included) between two loads
+function exampleEvents(before: TrainingExample[], after: TrainingExample[]): ExampleEvent[] {
+  const previous = new Map(before.map(example => [example.id, example]));
+  const events: ExampleEvent[] = [];
+  for (const example of after) {
+    const old = previous.get(example.id);
+    previous.delete(example.id);
+    if (!old || JSON.stringify(old) !== JSON.stringify(example)) {
+      events.push({ id: example.id, before: old, after: example });
+    }
+  }
+  for (const [id, old] of previous) {
+    events.push({ id, before: old });
+  }
+  return events;
+}
+
+export interface CollectionOptions {
+  sqlDialect: string;
+  rebuildIndex: boolean;
+  // Automatic versions kept by the retention policy; 0 turns automatic versions off
+  keepVersions: number;
+}
+
+type Change = { op: 'upsert'; example: TrainingExample } | { op: 'delete'; id: string };
+
+// An example before and after a change: added examples have no before, removed ones no after
+export interface ExampleEvent {
+  id: string;
+  before?: TrainingExample;
+  after?: TrainingExample;
+}
+
+// Called once the changes are written, or after picking up another process's writes. Changes that
+// touch no example (a repaired index, a new version) come with no events.
+export type ChangeListener = (events: ExampleEvent[]) => void;
+
+interface VersionRequest {
+  reason: string;
+  label?: string;
+  automatic: boolean;
+}
+
+export interface RollbackResult {
+  diff: VersionDiff;
+  // The version holding the state rolled back from (saved for the rollback unless it already was the
+  // latest version) and the one saved after it, if automatic versions are on
+  before?: VersionManifest;
+  after?: VersionManifest;
+  // Restored examples with a question or alternate question whose vector could not be taken from the
+  // version and had to be embedded
+  reembedded: string[];
+}
+
+// A named set of training examples with its own data file, vector index and embedding provider
+export class QueryCollection {
+  trainingData: TrainingExample[] = [];
+  // Set when another process holds the lock; the collection then follows that process's writes
+  readOnly = false;
+  private embeddingDimension = 0;
+  private vectorIndex: HierarchicalNSWType | null = null;
+  // Why there is no vector index, when the embedding provider failed while loading. Lexical search
+  // works without it; see requireVectorIndex for everything else.
+  private vectorIndexError: string | undefined;
+  private vectorIndexRetry: Promise<void> | null = null;
+  // Example ID <-> HNSW label. Labels are stable for the lifetime of an example, so they
+  // no longer match the row order of trainingData once examples have been deleted.
+  private idToIndex: Map<string, number> = new Map();
+  private indexToId: Map<number, string> = new Map();
+  // Each alternate question has a point of its own: example ID -> alternate question -> label.
+  // indexToId maps these labels back to the example as well.
+  private alternateLabels: Map<string, Map<string, number>> = new Map();
+  private nextLabel = 0;
+  // BM25 indexes over question and query text, rebuilt from trainingData on startup. The question
+  // index holds one document per phrasing; alternateDocuments lists the keys of the alternate ones.
+  private questionIndex = new Bm25Index();
+  private alternateDocuments: Map<string, string[]> = new Map();
+  private queryTextIndex = new Bm25Index();
+  private readonly trainingDataPath: string;
+  private readonly vectorIndexPath: string;
+  private readonly indexMetaPath: string;
+  private readonly changeLogPath: string;
+  private readonly feedbackPath: string;
+  private readonly lockPath: string;
+  private lock: DirectoryLock;
+  private lastSeq = 0;
+  private loadedSignature = '';
+  // Snapshots are written one at a time, in the order of the changes they follow
+  private writeQueue: Promise<void> = Promise.resolve();
+  private changeListeners: ChangeListener[] = [];
+  // Examples as of the last commit, to tell listeners what a change replaced
+  private committedExamples: Map<string, TrainingExample> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly directory: string,
+    readonly embeddings: CachedEmbeddingProvider,
+    private options: CollectionOptions
+  ) {
+    this.trainingDataPath = path.join(directory, 'training_data.json');
+    this.vectorIndexPath = path.join(directory, 'vector_index.bin');
+    this.indexMetaPath = path.join(directory, 'vector_index.meta.json');
+    this.changeLogPath = path.join(directory, 'changes.jsonl');
+    this.feedbackPath = path.join(directory, 'feedback.jsonl');
+    this.lockPath = path.join(directory, '.lock');
+    this.lock = new DirectoryLock(this.lockPath, () => {
+      this.readOnly = true;
+      console.error(`Lost the lock of collection "${this.name}" to another process; it is read-only now`);
+    });
+  }
+
+  // Take the collection's lock and load it; without the lock the collection is opened read-only
+  async initialize() {
+    // Ensure the collection directory exists
+    await fs.ensureDir(this.directory);
+    await this.embeddings.load();
+
+    if (!(await this.lock.tryAcquire())) {
+      this.readOnly = true;
+      console.error(`Collection "${this.name}" is locked by ${await this.describeLockOwner()}; opening it read-only. Its changes are picked up as they are written.`);
+    }
+
+    try {
+      await this.load();
+    } catch (error) {
+      await this.lock.release();
+      throw error;
+    }
+  }
+
+  // Read-only collections follow the process holding the lock: they reload whenever its snapshot or
+  // change log changes, and take over as the writer once that process is gone
+  async sync() {
+    if (!this.readOnly) {
+      return;
+    }
+
+    const previous = this.trainingData;
+    if (await this.lock.tryAcquire()) {
+      console.error(`Collection "${this.name}" is no longer locked by another process; it is writable again`);
+      this.readOnly = false;
+      await this.load();
+    } else if ((await this.snapshotSignature()) !== this.loadedSignature) {
+      await this.load();
+    } else {
+      return;
+    }
+    this.notifyChange(exampleEvents(previous, this.trainingData));
+  }
+
+  onChange(listener: ChangeListener) {
+    this.changeListeners.push(listener);
+  }
+
+  private notifyChange(events: ExampleEvent[]) {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(events);
+      } catch (error) {
+        console.error(`Error notifying a change of collection "${this.name}":`, error);
+      }
+    }
+  }
+
+  // Wait for pending writes and release the lock
+  async close() {
+    await this.writeQueue;
+    await this.lock.release();
+  }
+
+  // Load the last snapshot (training data and vector index), rebuilding the index when needed,
+  // and replay the change log entries written after it
+  private async load() {
+    this.trainingData = [];
+    this.idToIndex.clear();
+    this.indexToId.clear();
+    this.alternateLabels.clear();
+    this.nextLabel = 0;
+    this.questionIndex.clear();
+    this.alternateDocuments.clear();
+    this.queryTextIndex.clear();
+    const signature = await this.snapshotSignature();
+
+    // Load existing training data
+    if (await fs.pathExists(this.trainingDataPath)) {
+      try {
+        const data = await fs.readJson(this.trainingDataPath);
+        this.trainingData = Array.isArray(data) ? data : [];
+        // Examples stored before the language field existed get it detected from their query
+        this.trainingData.forEach(example => {
+          if (!example.language) {
+            example.language = detectQueryLanguage(example.query);
+          }
+        });
+      } catch (error) {
+        console.error('Error loading training data:', error);
+        this.trainingData = [];
+      }
+    }
+
+    this.trainingData.forEach(example => this.indexLexical(example));
+
+    const storedMeta: IndexMeta | undefined = (await fs.pathExists(this.indexMetaPath))
+      ? await fs.readJson(this.indexMetaPath)
+      : undefined;
+    this.lastSeq = storedMeta?.log_seq ?? 0;
+    let rebuilt = false;
+    try {
+      rebuilt = await this.loadVectorIndex(storedMeta);
+      this.vectorIndexError = undefined;
+    } catch (error) {
+      // Embedding providers report their failures (no API key, endpoint unreachable, ...) as McpError
+      if (!(error instanceof McpError)) {
+        throw error;
+      }
+      this.vectorIndexError = error.message;
+      this.vectorIndex = null;
+      this.idToIndex.clear();
+      this.indexToId.clear();
+      this.alternateLabels.clear();
+      console.error(`Vector index of collection "${this.name}" is unavailable (${error.message}); serving lexical search only until the embedding provider works`);
+    }
+
+    // Changes logged after the snapshot was written, e.g. by a process that crashed before finishing it
+    const pending = await readChangeLog(this.changeLogPath, this.lastSeq);
+    if (pending.length > 0) {
+      console.error(`Replaying ${pending.length} change log entries of collection "${this.name}"`);
+      await this.replayChangeLog(pending);
+      this.lastSeq = pending[pending.length - 1].seq;
+    }
+    console.error(`Loaded ${this.trainingData.length} training examples into collection "${this.name}"${this.readOnly ? ' (read-only)' : ''}`);
+
+    const report = this.vectorIndexError === undefined ? this.checkIndex() : undefined;
+    if (report && this.indexHasProblems(report)) {
+      // A snapshot interrupted between its files leaves the index a step behind; replaying fixes the data, this fixes the index
+      if (pending.length > 0 && !this.readOnly) {
+        await this.repairIndex(report);
+      } else {
+        console.error(`Vector index of collection "${this.name}" is out of sync with the training data: ${this.describeIndexProblems(report).join('; ')}. Run the check_index tool with repair=true to fix it.`);
+      }
+    }
+
+    this.committedExamples = new Map(this.trainingData.map(example => [example.id, example]));
+    if ((rebuilt || pending.length > 0) && !this.readOnly && this.vectorIndexError === undefined) {
+      await this.commit([]);
+    }
+    this.loadedSignature = this.readOnly ? signature : await this.snapshotSignature();
+  }
+
+  // Load the vector index of the snapshot, or rebuild it from the training data. Returns whether it was
+  // rebuilt. Throws the embedding provider's McpError when it cannot produce vectors.
+  private async loadVectorIndex(storedMeta: IndexMeta | undefined): Promise<boolean> {
+    let rebuilt = false;
+    this.embeddingDimension = await this.embeddings.getDimension();
+    const currentMeta: IndexMeta = {
+      provider: this.embeddings.provider,
+      model: this.embeddings.model,
+      dimension: this.embeddingDimension,
+    };
+    // Initialize vector index
+    this.vectorIndex = this.createVectorIndex();
+
+    // Load existing vector index if it exists
+    if (await fs.pathExists(this.vectorIndexPath) && this.trainingData.length > 0) {
+      const indexMeta = storedMeta ?? LEGACY_INDEX_META;
+
+      if (indexMeta.model !== currentMeta.model || indexMeta.dimension !== currentMeta.dimension) {
+        const mismatch = `Vector index of collection "${this.name}" was built with ${indexMeta.provider}/${indexMeta.model} (${indexMeta.dimension} dimensions) but the configured embedding provider is ${currentMeta.provider}/${currentMeta.model} (${currentMeta.dimension} dimensions).`;
+        if (!this.options.rebuildIndex) {
+          throw new Error(`${mismatch} Start the server with --rebuild-index (or REBUILD_INDEX=true) to re-embed all training examples, or switch back to the original embedding settings.`);
+        }
+        console.error(`${mismatch} Rebuilding the index...`);
+        await this.rebuildVectorIndex();
+        rebuilt = true;
+      } else {
+        try {
+          await this.vectorIndex.readIndex(this.vectorIndexPath, true);
+          // Rebuild ID to index mapping; legacy indexes are labelled by row order
+          this.trainingData.forEach((example, index) => {
+            const label = indexMeta.labels ? indexMeta.labels[example.id] : index;
+            if (label !== undefined) {
+              this.setLabel(example.id, label);
+            }
+            for (const question of example.alternate_questions || []) {
+              const alternateLabel = indexMeta.alternate_labels?.[example.id]?.[question];
+              if (alternateLabel !== undefined) {
+                this.setAlternateLabel(example.id, question, alternateLabel);
+              }
+            }
+          });
+          this.nextLabel = Math.max(indexMeta.next_label ?? 0, this.trainingData.length, ...this.vectorIndex.getIdsList().map(label => label + 1));
+
+          // Indexes written before alternate questions had vectors of their own
+          if (!indexMeta.alternate_labels && this.trainingData.some(example => example.alternate_questions?.length)) {
+            console.error(`Embedding the alternate questions of collection "${this.name}"...`);
+            for (const example of this.trainingData) {
+              await this.syncAlternateVectors(example);
+            }
+            rebuilt = true;
+          }
+        } catch (error) {
+          console.error('Error loading vector index, rebuilding it:', error);
+          // Rebuild from the training data; cached embeddings make this cheap
+          await this.rebuildVectorIndex();
+          rebuilt = true;
+        }
+      }
+    } else if (this.trainingData.length > 0) {
+      console.error(`Vector index of collection "${this.name}" not found, building it from the training data...`);
+      await this.rebuildVectorIndex();
+      rebuilt = true;
+    }
+
+    return rebuilt;
+  }
+
+  private async replayChangeLog(entries: ChangeLogEntry[]) {
+    for (const entry of entries) {
+      if (entry.op === 'delete') {
+        this.removeExamples([entry.id]);
+        continue;
+      }
+
+      const { example } = entry;
+      const existing = this.trainingData.find(candidate => candidate.id === example.id);
+      if (this.vectorIndexError !== undefined) {
+        // Without vectors only the data and the lexical index follow the log; it is replayed again
+        // with vectors once the embedding provider works
+        if (existing) {
+          this.trainingData[this.trainingData.indexOf(existing)] = example;
+        } else {
+          this.trainingData.push(example);
+        }
+        this.indexLexical(example);
+        continue;
+      }
+      const label = this.idToIndex.get(example.id);
+      if (existing && label !== undefined && this.isLiveLabel(label)) {
+        if (existing.question !== example.question) {
+          // Adding a point under an existing label replaces its vector in place
+          this.vectorIndex!.addPoint(await this.generateEmbedding(example.question), label);
+        }
+        await this.syncAlternateVectors(example);
+        this.trainingData[this.trainingData.indexOf(existing)] = example;
+        this.indexLexical(example);
+      } else {
+        if (existing) {
+          this.removeExamples([existing.id]);
+        }
+        this.insertExample(example, await this.embeddings.embedBatch(phrasingsOf(example)));
+      }
+    }
+  }
+
+  // Size and modification time of the files another process writes, to notice when they change
+  private async snapshotSignature(): Promise<string> {
+    const parts: string[] = [];
+    for (const filePath of [this.trainingDataPath, this.indexMetaPath, this.changeLogPath]) {
+      try {
+        const stats = await fs.stat(filePath);
+        parts.push(`${stats.size}:${stats.mtimeMs}`);
+      } catch {
+        parts.push('-');
+      }
+    }
+    return parts.join('|');
+  }
+
+  private async describeLockOwner(): Promise<string> {
+    const owner = await this.lock.owner();
+    return owner ? `process ${owner.pid} on ${owner.hostname} (since ${owner.acquired_at})` : 'another process';
+  }
+
+  // Also guards files kept next to the collection, such as its schemas
+  assertWritable() {
+    if (this.readOnly) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Collection "${this.name}" is read-only because another server process holds its lock (${this.lockPath}). Make the change there, or stop that process.`
+      );
+    }
+  }
+
+  // Vector search and edits need the vector index (a snapshot holds it too). When the embedding provider
+  // failed while loading, the collection is loaded again to try it once more.
+  private async requireVectorIndex() {
+    if (this.vectorIndexError === undefined) {
+      return;
+    }
+    if (!this.vectorIndexRetry) {
+      this.vectorIndexRetry = this.load().finally(() => {
+        this.vectorIndexRetry = null;
+      });
+    }
+    await this.vectorIndexRetry;
+    this.assertVectorIndex();
+  }
+
+  private assertVectorIndex() {
+    if (this.vectorIndexError !== undefined) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Collection "${this.name}" has no vector index because the embedding provider failed (${this.vectorIndexError}). Until it works, only lexical search (mode=lexical) is available; vector and hybrid search and edits are not.`
+      );
+    }
+  }
+
+  private async generateEmbedding(text: string): Promise<number[]> {
+    return this.embeddings.embed(text);
+  }
+
+  private createVectorIndex(minElements: number = 0): HierarchicalNSWType {
+    const index = new HierarchicalNSW('cosine', this.embeddingDimension);
+    // Allow new points to reuse the slots of points removed with markDelete
+    index.initIndex({
+      maxElements: Math.max(INITIAL_MAX_ELEMENTS, Math.ceil((minElements * 2) / INDEX_GROWTH_THRESHOLD)),
+      allowReplaceDeleted: true,
+    });
+    return index;
+  }
+
+  // Resize the index before it fills up, so addPoint never runs out of room
+  private ensureCapacity(additional: number) {
+    const index = this.vectorIndex!;
+    const required = index.getCurrentCount() + additional;
+    const capacity = index.getMaxElements();
+    if (required > capacity * INDEX_GROWTH_THRESHOLD) {
+      const newCapacity = Math.max(capacity * 2, Math.ceil(required / INDEX_GROWTH_THRESHOLD));
+      console.error(`Growing vector index capacity from ${capacity} to ${newCapacity}`);
+      index.resizeIndex(newCapacity);
+    }
+  }
+
+  private isLiveLabel(label: number): boolean {
+    try {
+      // hnswlib reports deleted and unknown labels alike as "not found"
+      this.vectorIndex!.getPoint(label);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Compare the HNSW index with trainingData and the ID <-> label mapping
+  checkIndex(): IndexCheckReport {
+    this.assertVectorIndex();
+    const index = this.vectorIndex!;
+    const liveLabels = index.getIdsList().filter(label => this.isLiveLabel(label));
+    const exampleIds = new Set(this.trainingData.map(example => example.id));
+
+    const orphanLabels = liveLabels.filter(label => {
+      const id = this.indexToId.get(label);
+      return id === undefined || !exampleIds.has(id) || !this.labelsOf(id).includes(label);
+    });
+
+    // An example misses vectors when its question or any of its alternate questions has none
+    const liveLabelSet = new Set(liveLabels);
+    const missingVectors = this.trainingData
+      .filter(example => [
+        this.idToIndex.get(example.id),
+        ...(example.alternate_questions || []).map(question => this.alternateLabels.get(example.id)?.get(question)),
+      ].some(label => label === undefined || !liveLabelSet.has(label) || this.indexToId.get(label) !== example.id))
+      .map(example => example.id);
+
+    return {
+      exampleCount: this.trainingData.length,
+      indexedCount: liveLabels.length,
+      phrasingCount: this.trainingData.reduce((count, example) => count + phrasingsOf(example).length, 0),
+      capacity: index.getMaxElements(),
+      indexDimension: index.getNumDimensions(),
+      expectedDimension: this.embeddingDimension,
+      orphanLabels,
+      missingVectors,
+    };
+  }
+
+  indexHasProblems(report: IndexCheckReport): boolean {
+    return this.describeIndexProblems(report).length > 0;
+  }
+
+  describeIndexProblems(report: IndexCheckReport): string[] {
+    const problems: string[] = [];
+    if (report.indexDimension !== report.expectedDimension) {
+      problems.push(`index dimension is ${report.indexDimension} but the embedding provider produces ${report.expectedDimension}`);
+    }
+    if (report.indexedCount !== report.phrasingCount) {
+      problems.push(`${report.indexedCount} vectors for the ${report.phrasingCount} questions and alternate questions of ${report.exampleCount} training examples`);
+    }
+    if (report.orphanLabels.length > 0) {
+      problems.push(`${report.orphanLabels.length} vectors without training data`);
+    }
+    if (report.missingVectors.length > 0) {
+      problems.push(`${report.missingVectors.length} training examples without vectors`);
+    }
+    return problems;
+  }
+
+  // Fix only what checkIndex found: a wrong dimension needs a full rebuild, otherwise orphaned
+  // points are marked deleted and missing examples are embedded (from the cache where possible)
+  async repairIndex(report: IndexCheckReport): Promise<string[]> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const actions: string[] = [];
+
+    if (report.indexDimension !== report.expectedDimension) {
+      await this.rebuildVectorIndex();
+      actions.push(`Rebuilt the index with ${this.trainingData.length} examples at dimension ${this.embeddingDimension}`);
+      await this.commit([]);
+      return actions;
+    }
+
+    for (const label of report.orphanLabels) {
+      this.vectorIndex!.markDelete(label);
+      this.unmapLabel(label);
+    }
+    if (report.orphanLabels.length > 0) {
+      actions.push(`Marked ${report.orphanLabels.length} orphaned vectors as deleted`);
+    }
+
+    // Drop mapping entries of examples that no longer exist
+    const exampleIds = new Set(this.trainingData.map(example => example.id));
+    for (const id of new Set([...this.idToIndex.keys(), ...this.alternateLabels.keys()])) {
+      if (!exampleIds.has(id)) {
+        this.labelsOf(id).filter(label => this.indexToId.get(label) === id).forEach(label => this.indexToId.delete(label));
+        this.idToIndex.delete(id);
+        this.alternateLabels.delete(id);
+      }
+    }
+
+    // Examples missing any vector get all of their phrasings indexed again
+    const missing = this.trainingData.filter(example => report.missingVectors.includes(example.id));
+    for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const embeddings = await this.embeddings.embedBatch(batch.flatMap(phrasingsOf));
+      let offset = 0;
+      for (const example of batch) {
+        const count = phrasingsOf(example).length;
+        this.removeVectors(example.id);
+        this.addVectors(example, embeddings.slice(offset, offset + count));
+        offset += count;
+      }
+    }
+    if (missing.length > 0) {
+      actions.push(`Embedded and indexed ${missing.length} training examples that had no vector`);
+    }
+
+    if (actions.length > 0) {
+      await this.commit([]);
+    }
+    return actions;
+  }
+
+  // Replace the index with a fresh one, which also drops the space held by deleted vectors
+  async reindex(): Promise<void> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    await this.rebuildVectorIndex();
+    await this.commit([]);
+  }
+
+  private setLabel(id: string, label: number) {
+    this.idToIndex.set(id, label);
+    this.indexToId.set(label, id);
+  }
+
+  private setAlternateLabel(id: string, question: string, label: number) {
+    if (!this.alternateLabels.has(id)) {
+      this.alternateLabels.set(id, new Map());
+    }
+    this.alternateLabels.get(id)!.set(question, label);
+    this.indexToId.set(label, id);
+  }
+
+  // Labels of the question and every alternate question of an example
+  private labelsOf(id: string): number[] {
+    const label = this.idToIndex.get(id);
+    return [...(label !== undefined ? [label] : []), ...(this.alternateLabels.get(id)?.values() || [])];
+  }
+
+  // The phrasing a label stands for
+  private phrasingOfLabel(label: number, example: TrainingExample): string {
+    for (const [question, alternateLabel] of this.alternateLabels.get(example.id) || []) {
+      if (alternateLabel === label) {
+        return question;
+      }
+    }
+    return example.question;
+  }
+
+  private unmapLabel(label: number) {
+    const id = this.indexToId.get(label);
+    this.indexToId.delete(label);
+    if (id === undefined) {
+      return;
+    }
+    if (this.idToIndex.get(id) === label) {
+      this.idToIndex.delete(id);
+    }
+    const alternates = this.alternateLabels.get(id);
+    alternates?.forEach((alternateLabel, question) => {
+      if (alternateLabel === label) {
+        alternates.delete(question);
+      }
+    });
+    if (alternates?.size === 0) {
+      this.alternateLabels.delete(id);
+    }
+  }
+
+  private addVector(id: string, embedding: number[], alternateQuestion?: string) {
+    this.ensureCapacity(1);
+    const label = this.nextLabel++;
+    this.vectorIndex!.addPoint(embedding, label, true);
+    if (alternateQuestion === undefined) {
+      this.setLabel(id, label);
+    } else {
+      this.setAlternateLabel(id, alternateQuestion, label);
+    }
+  }
+
+  // One vector per phrasing, in the order of phrasingsOf
+  private addVectors(example: TrainingExample, embeddings: number[][]) {
+    phrasingsOf(example).forEach((question, index) =>
+      this.addVector(example.id, embeddings[index], index === 0 ? undefined : question)
+    );
+  }
+
+  // Mark every vector of an example deleted
+  private removeVectors(id: string) {
+    for (const label of this.labelsOf(id)) {
+      if (this.isLiveLabel(label)) {
+        this.vectorIndex!.markDelete(label);
+      }
+      this.indexToId.delete(label);
+    }
+    this.idToIndex.delete(id);
+    this.alternateLabels.delete(id);
+  }
+
+  // Bring the vectors of an example's alternate questions in line with alternate_questions: removed ones
+  // are marked deleted and new ones embedded, unless a vector for them is known. Embedding happens
+  // before the index is touched, so a failing provider leaves it as it was.
+  private async syncAlternateVectors(example: TrainingExample, known: Map<string, number[]> = new Map()) {
+    const current = this.alternateLabels.get(example.id) || new Map<string, number>();
+    const wanted = example.alternate_questions || [];
+    const toEmbed = wanted.filter(question => !current.has(question) && !known.has(question));
+    const embeddings = toEmbed.length > 0 ? await this.embeddings.embedBatch(toEmbed) : [];
+    const vectors = new Map(known);
+    toEmbed.forEach((question, index) => vectors.set(question, embeddings[index]));
+
+    for (const [question, label] of [...current]) {
+      if (!wanted.includes(question)) {
+        if (this.isLiveLabel(label)) {
+          this.vectorIndex!.markDelete(label);
+        }
+        this.unmapLabel(label);
+      }
+    }
+    for (const question of wanted) {
+      if (!current.has(question)) {
+        this.addVector(example.id, vectors.get(question)!, question);
+      }
+    }
+  }
+
+  private getExampleByLabel(label: number): TrainingExample | undefined {
+    const id = this.indexToId.get(label);
+    return id === undefined ? undefined : this.trainingData.find(example => example.id === id);
+  }
+
+  private findDuplicateExample(question: string, query: string, excludeId?: string): TrainingExample | undefined {
+    const key = duplicateKey(question, query);
+    return this.trainingData.find(
+      example => example.id !== excludeId && duplicateKey(example.question, example.query) === key
+    );
+  }
+
+  // Re-embed every training example into a fresh index: questions are labelled by their row in
+  // trainingData, alternate questions follow them. Embeddings come from the cache where possible,
+  // so only unseen questions reach the provider.
+  private async rebuildVectorIndex() {
+    const phrasings = [
+      ...this.trainingData.map(example => ({ id: example.id, question: example.question, alternate: false })),
+      ...this.trainingData.flatMap(example =>
+        (example.alternate_questions || []).map(question => ({ id: example.id, question, alternate: true }))
+      ),
+    ];
+    const vectorIndex = this.createVectorIndex(phrasings.length);
+
+    for (let start = 0; start < phrasings.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = phrasings.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const embeddings = await this.embeddings.embedBatch(batch.map(phrasing => phrasing.question));
+      embeddings.forEach((embedding, offset) => vectorIndex.addPoint(embedding, start + offset));
+    }
+
+    // Only swap the index in once every embedding succeeded
+    this.vectorIndex = vectorIndex;
+    this.idToIndex.clear();
+    this.indexToId.clear();
+    this.alternateLabels.clear();
+    phrasings.forEach((phrasing, label) => {
+      if (phrasing.alternate) {
+        this.setAlternateLabel(phrasing.id, phrasing.question, label);
+      } else {
+        this.setLabel(phrasing.id, label);
+      }
+    });
+    this.nextLabel = phrasings.length;
+  }
+
+  async addTrainingExample(
+    question: string,
+    query: string,
+    metadata?: any,
+    language?: QueryLanguage,
+    options: { parameterize?: boolean; alternateQuestions?: string[] } = {}
+  ): Promise<TrainingExample> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+
+    // Check for duplicates based on question and query
+    const existingExample = this.findDuplicateExample(question, query);
+
+    if (existingExample) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Duplicate training example found. Existing example ID: ${existingExample.id}`
+      );
+    }
+
+    const example = this.createExample({
+      question,
+      query,
+      language,
+      alternate_questions: options.alternateQuestions,
+      metadata: { ...callerMetadata(metadata), created_at: undefined },
+    });
+    this.assertValidSyntax(example);
+    const template = options.parameterize ? extractTemplate(example.query, example.language) : undefined;
+    if (template) {
+      example.template = template;
+    }
+
+    // Generate embeddings for the question and each alternate question
+    const embeddings = await this.embeddings.embedBatch(phrasingsOf(example));
+
+    this.insertExample(example, embeddings);
+
+    // Save data
+    await this.commit([{ op: 'upsert', example }]);
+
+    return example;
+  }
+
+  // A query whose language was neither given nor detected fails too: it is most likely garbled
+  checkSyntax(example: TrainingExample): QuerySyntaxError[] | undefined {
+    if (!example.language) {
+      return [{ line: 1, column: 1, message: UNKNOWN_LANGUAGE_MESSAGE }];
+    }
+    return validateQuerySyntax(example.query, example.language, { sqlDialect: this.options.sqlDialect });
+  }
+
+  // Reject queries that don't parse; languages without a parser are let through
+  private assertValidSyntax(example: TrainingExample) {
+    const errors = this.checkSyntax(example);
+    if (errors && errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, invalidQueryMessage(example, errors));
+    }
+  }
+
+  private createExample(input: ImportedExample): TrainingExample {
+    const alternateQuestions = uniqueAlternates(input.question, input.alternate_questions || []);
+    return {
+      id: input.id || `example_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      question: input.question,
+      ...(alternateQuestions.length > 0 ? { alternate_questions: alternateQuestions } : {}),
+      query: input.query,
+      language: input.language || detectQueryLanguage(input.query),
+      ...(input.template ? { template: input.template } : {}),
+      metadata: {
+        ...input.metadata,
+        created_at: input.metadata?.created_at || new Date().toISOString(),
+      },
+    };
+  }
+
+  // embeddings holds one vector per phrasing, in the order of phrasingsOf
+  private insertExample(example: TrainingExample, embeddings: number[][]) {
+    // Add to vector index
+    this.addVectors(example, embeddings);
+
+    // Add to training data
+    this.trainingData.push(example);
+    this.indexLexical(example);
+  }
+
+  private indexLexical(example: TrainingExample) {
+    this.questionIndex.add(example.id, example.question);
+    (this.alternateDocuments.get(example.id) || []).forEach(key => this.questionIndex.remove(key));
+    const alternates = example.alternate_questions || [];
+    alternates.forEach(question => this.questionIndex.add(lexicalKey(example.id, question), question));
+    this.alternateDocuments.set(example.id, alternates.map(question => lexicalKey(example.id, question)));
+    this.queryTextIndex.add(example.id, example.query);
+  }
+
+  private removeLexical(id: string) {
+    this.questionIndex.remove(id);
+    (this.alternateDocuments.get(id) || []).forEach(key => this.questionIndex.remove(key));
+    this.alternateDocuments.delete(id);
+    this.queryTextIndex.remove(id);
+  }
+
+  // Validate, de-duplicate and embed parsed import rows, returning one report entry per row
+  async importTrainingExamples(
+    rows: ParsedRow[],
+    options: { dryRun: boolean; batchSize: number }
+  ): Promise<ImportRowReport[]> {
+    const reports: ImportRowReport[] = [];
+    const pending: { report: ImportRowReport; example: TrainingExample }[] = [];
+    const seenKeys = new Map<string, number>();
+    const seenIds = new Map<string, number>();
+
+    for (const row of rows) {
+      if (!row.example) {
+        reports.push({ row: row.row, status: 'invalid', message: row.errors.join('; ') });
+        continue;
+      }
+
+      const { question, query, id } = row.example;
+      const key = duplicateKey(question, query);
+      const existing = this.findDuplicateExample(question, query);
+      let duplicateMessage: string | undefined;
+      if (existing) {
+        duplicateMessage = `Duplicate of existing example ID: ${existing.id}`;
+      } else if (seenKeys.has(key)) {
+        duplicateMessage = `Duplicate of row ${seenKeys.get(key)}`;
+      } else if (id && this.idToIndex.has(id)) {
+        duplicateMessage = `Example ID already exists: ${id}`;
+      } else if (id && seenIds.has(id)) {
+        duplicateMessage = `Example ID already used by row ${seenIds.get(id)}`;
+      }
+
+      if (duplicateMessage) {
+        reports.push({ row: row.row, status: 'duplicate', id, message: duplicateMessage });
+        continue;
+      }
+
+      const example = this.createExample(row.example);
+      const syntaxErrors = this.checkSyntax(example);
+      if (syntaxErrors && syntaxErrors.length > 0) {
+        reports.push({ row: row.row, status: 'invalid', id, message: invalidQueryMessage(example, syntaxErrors) });
+        continue;
+      }
+
+      seenKeys.set(key, row.row);
+      seenIds.set(example.id, row.row);
+      const report: ImportRowReport = { row: row.row, status: options.dryRun ? 'would_add' : 'added', id: example.id };
+      reports.push(report);
+      pending.push({ report, example });
+    }
+
+    if (options.dryRun) {
+      return reports;
+    }
+    this.assertWritable();
+    await this.requireVectorIndex();
+
+    const added: TrainingExample[] = [];
+    for (let start = 0; start < pending.length; start += options.batchSize) {
+      const batch = pending.slice(start, start + options.batchSize);
+      try {
+        const embeddings = await this.embeddings.embedBatch(batch.flatMap(item => phrasingsOf(item.example)));
+        let offset = 0;
+        batch.forEach(item => {
+          const count = phrasingsOf(item.example).length;
+          this.insertExample(item.example, embeddings.slice(offset, offset + count));
+          added.push(item.example);
+          offset += count;
+        });
+      } catch (error) {
+        // A failed batch is reported per row; earlier batches stay imported
+        batch.forEach(item => {
+          item.report.status = 'error';
+          item.report.message = error instanceof Error ? error.message : 'Unknown error';
+        });
+      }
+    }
+
+    if (added.length > 0) {
+      await this.commit(added.map(example => ({ op: 'upsert', example })), this.automaticVersion(`import ${added.length} examples`));
+    }
+
+    return reports;
+  }
+
+  async updateTrainingExample(
+    id: string,
+    changes: { question?: string; query?: string; language?: QueryLanguage; metadata?: any; parameterize?: boolean }
+  ): Promise<TrainingExample> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const existing = this.trainingData.find(example => example.id === id);
+    if (!existing) {
+      throw new McpError(ErrorCode.InvalidParams, `Training example not found: ${id}`);
+    }
+
+    const question = changes.question ?? existing.question;
+    const query = changes.query ?? existing.query;
+    const duplicate = this.findDuplicateExample(question, query, id);
+    if (duplicate) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Duplicate training example found. Existing example ID: ${duplicate.id}`
+      );
+    }
+
+    // A changed query is re-detected unless the caller says which language it is
+    const language = changes.language
+      ?? (changes.query !== undefined ? detectQueryLanguage(query) ?? existing.language : existing.language);
+
+    // A template follows its query; parameterize turns it on (re-extracting it) or off
+    const template = changes.parameterize === false
+      ? undefined
+      : changes.parameterize || (existing.template && (query !== existing.query || language !== existing.language))
+        ? extractTemplate(query, language)
+        : existing.template;
+
+    // An alternate question that became the question is no longer an alternate
+    const alternateQuestions = uniqueAlternates(question, existing.alternate_questions || []);
+    const updated: TrainingExample = {
+      id,
+      question,
+      ...(alternateQuestions.length > 0 ? { alternate_questions: alternateQuestions } : {}),
+      query,
+      language,
+      ...(template ? { template } : {}),
+      metadata: {
+        ...existing.metadata,
+        ...callerMetadata(changes.metadata),
+        created_at: existing.metadata?.created_at,
+        updated_at: new Date().toISOString(),
+      },
+    };
+
+    if (query !== existing.query || language !== existing.language) {
+      this.assertValidSyntax(updated);
+    }
+
+    // Only the questions are embedded, so the vectors are left alone for query or metadata edits,
+    // unless the example has no vector yet (see checkIndex)
+    const label = this.idToIndex.get(id);
+    const hasVector = label !== undefined && this.indexToId.get(label) === id && this.isLiveLabel(label);
+    if (question !== existing.question || !hasVector) {
+      const embedding = await this.generateEmbedding(question);
+      if (hasVector) {
+        // Adding a point under an existing label replaces its vector in place
+        this.vectorIndex!.addPoint(embedding, label);
+      } else {
+        if (label !== undefined && this.indexToId.get(label) === id) {
+          this.indexToId.delete(label);
+        }
+        this.addVector(id, embedding);
+      }
+    }
+    await this.syncAlternateVectors(updated);
+
+    this.trainingData[this.trainingData.indexOf(existing)] = updated;
+    this.indexLexical(updated);
+
+    await this.commit([{ op: 'upsert', example: updated }]);
+
+    return updated;
+  }
+
+  // Add paraphrases of an example's question, each embedded as a vector of its own. Phrasings the
+  // example already has are skipped, compared like duplicate questions.
+  async addAlternateQuestions(id: string, questions: string[]): Promise<{ example: TrainingExample; added: string[]; skipped: string[] }> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const existing = this.trainingData.find(example => example.id === id);
+    if (!existing) {
+      throw new McpError(ErrorCode.InvalidParams, `Training example not found: ${id}`);
+    }
+
+    const alternateQuestions = uniqueAlternates(existing.question, [...(existing.alternate_questions || []), ...questions]);
+    const added = alternateQuestions.slice((existing.alternate_questions || []).length);
+    const skipped = questions.filter(question => !added.includes(question));
+    if (added.length === 0) {
+      return { example: existing, added, skipped };
+    }
+
+    const updated: TrainingExample = {
+      ...existing,
+      alternate_questions: alternateQuestions,
+      metadata: { ...existing.metadata, updated_at: new Date().toISOString() },
+    };
+    await this.syncAlternateVectors(updated);
+    this.trainingData[this.trainingData.indexOf(existing)] = updated;
+    this.indexLexical(updated);
+
+    await this.commit([{ op: 'upsert', example: updated }]);
+
+    return { example: updated, added, skipped };
+  }
+
+  // Remove alternate questions of an example along with their vectors
+  async removeAlternateQuestions(id: string, questions: string[]): Promise<{ example: TrainingExample; removed: string[]; notFound: string[] }> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const existing = this.trainingData.find(example => example.id === id);
+    if (!existing) {
+      throw new McpError(ErrorCode.InvalidParams, `Training example not found: ${id}`);
+    }
+
+    const keys = new Set(questions.map(phrasingKey));
+    const removed = (existing.alternate_questions || []).filter(question => keys.has(phrasingKey(question)));
+    const removedKeys = new Set(removed.map(phrasingKey));
+    const notFound = questions.filter(question => !removedKeys.has(phrasingKey(question)));
+    if (removed.length === 0) {
+      return { example: existing, removed, notFound };
+    }
+
+    const { alternate_questions, ...rest } = existing;
+    const alternateQuestions = alternate_questions!.filter(question => !removed.includes(question));
+    const updated: TrainingExample = {
+      ...rest,
+      ...(alternateQuestions.length > 0 ? { alternate_questions: alternateQuestions } : {}),
+      metadata: { ...existing.metadata, updated_at: new Date().toISOString() },
+    };
+    await this.syncAlternateVectors(updated);
+    this.trainingData[this.trainingData.indexOf(existing)] = updated;
+    this.indexLexical(updated);
+
+    await this.commit([{ op: 'upsert', example: updated }]);
+
+    return { example: updated, removed, notFound };
+  }
+
+  // Verification results leave updated_at alone, since the example itself did not change
+  async recordVerifications(results: Map<string, ExampleVerification>): Promise<void> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const changes: { op: 'upsert'; example: TrainingExample }[] = [];
+    results.forEach((verification, id) => {
+      const index = this.trainingData.findIndex(example => example.id === id);
+      if (index === -1) {
+        return; // Deleted while the queries ran
+      }
+      const updated = { ...this.trainingData[index], metadata: { ...this.trainingData[index].metadata, verification } };
+      this.trainingData[index] = updated;
+      changes.push({ op: 'upsert', example: updated });
+    });
+    await this.commit(changes);
+  }
+
+  // Count the outcome on each example and keep the full entry in feedback.jsonl
+  async recordFeedback(entry: FeedbackEntry): Promise<void> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const unknownIds = entry.example_ids.filter(id => !this.trainingData.some(example => example.id === id));
+    if (unknownIds.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Training examples not found: ${unknownIds.join(', ')}`);
+    }
+
+    const changes: { op: 'upsert'; example: TrainingExample }[] = [];
+    for (const id of new Set(entry.example_ids)) {
+      const index = this.trainingData.findIndex(example => example.id === id);
+      const counts: ExampleFeedback = this.trainingData[index].metadata?.feedback || { helpful: 0, not_helpful: 0, corrected: 0, last_at: '' };
+      const feedback = { ...counts, [entry.outcome]: counts[entry.outcome] + 1, last_at: entry.created_at };
+      const updated = { ...this.trainingData[index], metadata: { ...this.trainingData[index].metadata, feedback } };
+      this.trainingData[index] = updated;
+      changes.push({ op: 'upsert', example: updated });
+    }
+
+    await this.commit(changes);
+    await fs.appendFile(this.feedbackPath, JSON.stringify(entry) + '\n');
+  }
+
+  async deleteTrainingExamples(ids: string[]): Promise<{ deleted: string[]; notFound: string[] }> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const result = this.removeExamples(ids);
+
+    if (result.deleted.length > 0) {
+      await this.commit(
+        result.deleted.map(id => ({ op: 'delete', id })),
+        this.automaticVersion(`delete ${result.deleted.length} examples`)
+      );
+    }
+
+    return result;
+  }
+
+  // Remove examples by ID, marking their vectors deleted instead of rebuilding the index
+  private removeExamples(ids: string[]): { deleted: string[]; notFound: string[] } {
+    const deleted: string[] = [];
+    const notFound: string[] = [];
+    const existingIds = new Set(this.trainingData.map(example => example.id));
+
+    for (const id of new Set(ids)) {
+      if (!existingIds.has(id)) {
+        notFound.push(id);
+        continue;
+      }
+      this.removeVectors(id);
+      this.removeLexical(id);
+      deleted.push(id);
+    }
+
+    if (deleted.length > 0) {
+      const deletedIds = new Set(deleted);
+      this.trainingData = this.trainingData.filter(example => !deletedIds.has(example.id));
+    }
+
+    return { deleted, notFound };
+  }
+
+  // Groups of exact duplicates (see duplicateKey), oldest first: remove_duplicates keeps the first of each
+  findExactDuplicateGroups(): TrainingExample[][] {
+    const groups = new Map<string, TrainingExample[]>();
+    for (const example of this.trainingData) {
+      const key = duplicateKey(example.question, example.query);
+      groups.set(key, [...(groups.get(key) || []), example]);
+    }
+    const createdAt = (example: TrainingExample) => new Date(example.metadata?.created_at || '1970-01-01').getTime();
+    return [...groups.values()]
+      .filter(group => group.length > 1)
+      .map(group => group.sort((a, b) => createdAt(a) - createdAt(b)));
+  }
+
+  // Cluster examples whose combined question embedding and normalized query similarity reaches
+  // the threshold. Candidates come from each example's vector neighbours plus identical normalized queries.
+  findNearDuplicateClusters(threshold: number, queryWeight: number): NearDuplicateCluster[] {
+    this.assertVectorIndex();
+    if (!this.vectorIndex || this.trainingData.length < 2) {
+      return [];
+    }
+
+    // Examples without a vector (see checkIndex) are left out rather than failing the whole search
+    const indexed = this.trainingData.filter(example => {
+      const label = this.idToIndex.get(example.id);
+      return label !== undefined && this.indexToId.get(label) === example.id && this.isLiveLabel(label);
+    });
+    if (indexed.length < 2) {
+      return [];
+    }
+
+    const examples = new Map(indexed.map(example => [example.id, example]));
+    const normalizedQueries = new Map(
+      indexed.map(example => [example.id, normalizeQuery(example.query, example.language)])
+    );
+    const points = new Map<string, number[]>();
+    const pointOf = (id: string) => {
+      if (!points.has(id)) {
+        points.set(id, this.vectorIndex!.getPoint(this.idToIndex.get(id)!));
+      }
+      return points.get(id)!;
+    };
+    // hnswlib stores normalized vectors in cosine space, so the dot product is the cosine similarity
+    const questionSimilarity = (a: string, b: string) =>
+      pointOf(a).reduce((sum, value, index) => sum + value * pointOf(b)[index], 0);
+
+    const scores = new Map<string, number>(); // "idA|idB" -> combined similarity
+    const consider = (a: string, b: string) => {
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      if (a === b || scores.has(key)) {
+        return;
+      }
+      const similarity = (1 - queryWeight) * questionSimilarity(a, b) +
+        queryWeight * querySimilarity(normalizedQueries.get(a)!, normalizedQueries.get(b)!);
+      scores.set(key, similarity);
+    };
+
+    // Alternate questions take up neighbour slots too
+    const k = Math.min(
+      (NEAR_DUPLICATE_NEIGHBORS + 1) * Math.ceil(this.indexToId.size / this.trainingData.length),
+      this.indexToId.size
+    );
+    for (const example of indexed) {
+      const { neighbors } = this.vectorIndex.searchKnn(pointOf(example.id), k);
+      neighbors.forEach(label => {
+        const neighborId = this.indexToId.get(label);
+        if (neighborId && examples.has(neighborId)) {
+          consider(example.id, neighborId);
+        }
+      });
+    }
+
+    // Paraphrases can sit far apart in embedding space while sharing the exact same query
+    const byQuery = new Map<string, string[]>();
+    normalizedQueries.forEach((normalized, id) => byQuery.set(normalized, [...(byQuery.get(normalized) || []), id]));
+    byQuery.forEach(ids => ids.forEach((a, i) => ids.slice(i + 1).forEach(b => consider(a, b))));
+
+    const pairs: [string, string][] = [];
+    scores.forEach((similarity, key) => {
+      if (similarity >= threshold) {
+        pairs.push(key.split('|') as [string, string]);
+      }
+    });
+
+    return clusterPairs(pairs).map(ids => {
+      // Suggest keeping the oldest example, as remove_duplicates does
+      const members = ids
+        .map(id => examples.get(id)!)
+        .sort((a, b) => new Date(a.metadata?.created_at || '1970-01-01').getTime() - new Date(b.metadata?.created_at || '1970-01-01').getTime());
+      const [survivor, ...rest] = members;
+      return {
+        survivor,
+        duplicates: rest.map(example => {
+          consider(survivor.id, example.id);
+          const key = survivor.id < example.id ? `${survivor.id}|${example.id}` : `${example.id}|${survivor.id}`;
+          return { example, similarity: scores.get(key)! };
+        }),
+      };
+    });
+  }
+
+  // Fold examples into a survivor: their questions become alternate questions of the survivor,
+  // tags are combined, and the merged examples are deleted
+  async mergeTrainingExamples(keepId: string, mergeIds: string[]): Promise<TrainingExample> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const survivor = this.trainingData.find(example => example.id === keepId);
+    if (!survivor) {
+      throw new McpError(ErrorCode.InvalidParams, `Training example not found: ${keepId}`);
+    }
+    const merged = [...new Set(mergeIds)].filter(id => id !== keepId).map(id => {
+      const example = this.trainingData.find(candidate => candidate.id === id);
+      if (!example) {
+        throw new McpError(ErrorCode.InvalidParams, `Training example not found: ${id}`);
+      }
+      return example;
+    });
+
+    const alternateQuestions = uniqueAlternates(survivor.question, [
+      ...(survivor.alternate_questions || []),
+      ...merged.flatMap(phrasingsOf),
+    ]);
+
+    const tags = [...new Set([survivor, ...merged].flatMap(example => example.metadata?.tags || []))];
+    const updated: TrainingExample = {
+      ...survivor,
+      ...(alternateQuestions.length > 0 ? { alternate_questions: alternateQuestions } : {}),
+      metadata: {
+        ...survivor.metadata,
+        ...(tags.length > 0 ? { tags } : {}),
+        updated_at: new Date().toISOString(),
+      },
+    };
+    // The merged questions were embedded before, so their vectors come from the cache
+    await this.syncAlternateVectors(updated);
+    this.trainingData[this.trainingData.indexOf(survivor)] = updated;
+    this.indexLexical(updated);
+
+    const { deleted } = this.removeExamples(merged.map(example => example.id));
+    await this.commit([
+      { op: 'upsert', example: updated },
+      ...deleted.map(id => ({ op: 'delete' as const, id })),
+    ], this.automaticVersion(`merge ${deleted.length} examples into ${keepId}`));
+
+    return updated;
+  }
+
+  versions(): Promise<VersionManifest[]> {
+    return listVersions(this.directory);
+  }
+
+  // Save the collection as it is now; versions created on demand are never pruned
+  async createVersion(label?: string): Promise<VersionManifest> {
+    return (await this.commit([], { reason: 'on demand', label, automatic: false }))!;
+  }
+
+  // The examples of a version, or of the collection as it is now for "current"
+  async examplesAt(version: string): Promise<TrainingExample[]> {
+    return version === CURRENT_VERSION ? this.trainingData : (await readVersion(this.directory, version)).examples;
+  }
+
+  async diffVersions(from: string, to: string): Promise<VersionDiff> {
+    return diffExamples(await this.examplesAt(from), await this.examplesAt(to));
+  }
+
+  // Bring the examples back to a version. The state rolled back from is saved as a version first (even
+  // with automatic versions off, so the rollback can be undone), and vectors are read from the
+  // version's index instead of being embedded again.
+  async rollback(id: string): Promise<RollbackResult> {
+    this.assertWritable();
+    await this.requireVectorIndex();
+    const { examples } = await readVersion(this.directory, id);
+    if (diffIsEmpty(diffExamples(this.trainingData, examples))) {
+      return { diff: { added: [], removed: [], changed: [] }, reembedded: [] };
+    }
+
+    const [latest] = await listVersions(this.directory);
+    const before = latest?.log_seq === this.lastSeq
+      ? latest
+      : await this.commit([], { reason: `before rollback to ${id}`, automatic: true });
+
+    const diff = diffExamples(this.trainingData, examples);
+    const { vectors, reembedded } = await this.versionVectors(id, [
+      ...diff.added,
+      ...diff.changed
+        .filter(change => change.fields.includes('question') || change.fields.includes('alternate_questions'))
+        .map(change => change.to),
+    ]);
+
+    const { deleted } = this.removeExamples(diff.removed.map(example => example.id));
+    const changes: Change[] = deleted.map(id => ({ op: 'delete', id }));
+    const now = new Date().toISOString();
+    for (const change of diff.changed) {
+      const restored = withRecordedOutcomes(change.to, change.from);
+      restored.metadata = { ...restored.metadata, updated_at: now };
+      const phrasingVectors = vectors.get(change.id);
+      if (phrasingVectors) {
+        if (change.fields.includes('question')) {
+          // Adding a point under an existing label replaces its vector in place
+          this.vectorIndex!.addPoint(phrasingVectors.get(restored.question)!, this.idToIndex.get(change.id)!);
+        }
+        await this.syncAlternateVectors(restored, phrasingVectors);
+      }
+      this.trainingData[this.trainingData.findIndex(example => example.id === change.id)] = restored;
+      this.indexLexical(restored);
+      changes.push({ op: 'upsert', example: restored });
+    }
+    for (const example of diff.added) {
+      this.insertExample(example, phrasingsOf(example).map(question => vectors.get(example.id)!.get(question)!));
+      changes.push({ op: 'upsert', example });
+    }
+
+    // Keep the version's order of examples
+    const order = new Map(examples.map((example, index) => [example.id, index]));
+    this.trainingData.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+    const after = await this.commit(changes, this.automaticVersion(`rollback to ${id}`));
+    return { diff, before, after, reembedded };
+  }
+
+  // Vectors of every phrasing of the given examples from a version's index, per example ID. Phrasings it
+  // has no usable vector for (the index was built with other embedding settings, or is missing) are
+  // embedded again.
+  private async versionVectors(
+    id: string,
+    examples: TrainingExample[]
+  ): Promise<{ vectors: Map<string, Map<string, number[]>>; reembedded: string[] }> {
+    const vectors = new Map(examples.map(example => [example.id, new Map<string, number[]>()]));
+    const indexPath = path.join(versionDir(this.directory, id), 'vector_index.bin');
+    const metaPath = path.join(versionDir(this.directory, id), 'vector_index.meta.json');
+
+    if (examples.length > 0 && (await fs.pathExists(indexPath)) && (await fs.pathExists(metaPath))) {
+      const meta: IndexMeta = await fs.readJson(metaPath);
+      if (meta.labels && meta.model === this.embeddings.model && meta.dimension === this.embeddingDimension) {
+        const index = new HierarchicalNSW('cosine', meta.dimension);
+        await index.readIndex(indexPath);
+        for (const example of examples) {
+          const labels: [string, number | undefined][] = [
+            [example.question, meta.labels[example.id]],
+            ...(example.alternate_questions || []).map(question =>
+              [question, meta.alternate_labels?.[example.id]?.[question]] as [string, number | undefined]
+            ),
+          ];
+          for (const [question, label] of labels) {
+            try {
+              if (label !== undefined) {
+                vectors.get(example.id)!.set(question, index.getPoint(label));
+              }
+            } catch {
+              // Deleted in the version's index
+            }
+          }
+        }
+      }
+    }
+
+    const missingPhrasings = (example: TrainingExample) =>
+      phrasingsOf(example).filter(question => !vectors.get(example.id)!.has(question));
+    const reembedded = examples.filter(example => missingPhrasings(example).length > 0);
+    for (const example of reembedded) {
+      const missing = missingPhrasings(example);
+      const embeddings = await this.embeddings.embedBatch(missing);
+      missing.forEach((question, index) => vectors.get(example.id)!.set(question, embeddings[index]));
+    }
+    return { vectors, reembedded: reembedded.map(example => example.id) };
+  }
+
+  // Record changes that were applied in memory: they are appended to the change log first, then a
+  // snapshot of the whole collection is written and the log entries it covers are dropped. A crash
+  // at any point loses nothing, because startup replays the log over the last complete snapshot.
+  // A requested version is copied from the snapshot once it is complete.
+  private commit(changes: Change[], version?: VersionRequest): Promise<VersionManifest | undefined> {
+    this.assertWritable();
+    this.assertVectorIndex();
+    const entries = changes.map(change => ({ ...change, seq: ++this.lastSeq }) as ChangeLogEntry);
+    const events = changes.map(change => {
+      const id = change.op === 'upsert' ? change.example.id : change.id;
+      const event: ExampleEvent = { id, before: this.committedExamples.get(id) };
+      if (change.op === 'upsert') {
+        event.after = change.example;
+        this.committedExamples.set(id, change.example);
+      } else {
+        this.committedExamples.delete(id);
+      }
+      return event;
+    });
+
+    const write = this.writeQueue.then(async () => {
+      await appendChangeLog(this.changeLogPath, entries);
+      const exampleCount = this.trainingData.length;
+      const snapshotSeq = await this.writeSnapshot();
+      await compactChangeLog(this.changeLogPath, snapshotSeq);
+      this.loadedSignature = await this.snapshotSignature();
+      let manifest: VersionManifest | undefined;
+      if (version) {
+        manifest = await saveVersion(this.directory, {
+          ...version,
+          example_count: exampleCount,
+          log_seq: snapshotSeq,
+        });
+        if (version.automatic && this.options.keepVersions > 0) {
+          await pruneVersions(this.directory, this.options.keepVersions);
+        }
+      }
+      this.notifyChange(events);
+      return manifest;
+    });
+    // A failed write is reported to its caller but must not block the ones queued after it
+    this.writeQueue = write.then(() => {}, () => {});
+    return write;
+  }
+
+  // Bulk and destructive edits (import, delete, merge, rollback) are versioned automatically unless the
+  // retention policy keeps no versions. Single edits are not, or a busy collection would push the
+  // versions worth going back to out of retention within minutes; they are part of the next version.
+  private automaticVersion(reason: string): VersionRequest | undefined {
+    return this.options.keepVersions > 0 ? { reason, automatic: true } : undefined;
+  }
+
+  // Each file is replaced atomically. The metadata goes last: its log_seq marks the snapshot as complete.
+  private async writeSnapshot(): Promise<number> {
+    const snapshotSeq = this.lastSeq;
+    const meta: IndexMeta = {
+      provider: this.embeddings.provider,
+      model: this.embeddings.model,
+      dimension: this.embeddingDimension,
+      labels: Object.fromEntries(this.idToIndex),
+      alternate_labels: Object.fromEntries([...this.alternateLabels].map(([id, labels]) => [id, Object.fromEntries(labels)])),
+      next_label: this.nextLabel,
+      log_seq: snapshotSeq,
+    };
+
+    // Save training data
+    await writeJsonAtomic(this.trainingDataPath, this.trainingData);
+
+    // Save vector index together with the embedding settings it was built with
+    if (this.vectorIndex && this.trainingData.length > 0) {
+      await writeFileAtomic(this.vectorIndexPath, tempPath => this.vectorIndex!.writeIndex(tempPath).then(() => {}));
+    }
+    await writeJsonAtomic(this.indexMetaPath, meta);
+
+    return snapshotSeq;
+  }
+
+  async findSimilarExamples(
+    question: string,
+    limit: number = 3,
+    threshold: number = 0.7,
+    filters: SearchFilters = {},
+    options: {
+      mode?: SearchMode;
+      includeQueryText?: boolean;
+      feedbackWeight?: number;
+      // A phrasing of an example to leave out of the search, so an example can be probed with its own
+      // alternate questions (see evaluation.ts)
+      exclude?: { id: string; question: string };
+    } = {}
+  ): Promise<SimilarExample[]> {
+    const { mode = 'vector', includeQueryText = false, feedbackWeight = DEFAULT_FEEDBACK_WEIGHT, exclude } = options;
+    if (mode !== 'lexical') {
+      await this.requireVectorIndex();
+    }
+    if (this.trainingData.length === 0) {
+      return [];
+    }
+
+    // Filters are applied inside both searches (hnswlib's filter callback for the kNN search),
+    // so a narrow filter still yields up to `limit` results instead of starving a post-filtered list
+    const allowed = this.trainingData.filter(example => matchesFilters(example, filters));
+    if (allowed.length === 0) {
+      return [];
+    }
+
+    // Hybrid search looks deeper into each ranking so fusion has enough overlap to work with. The
+    // threshold only applies to the vector ranking, so examples matched by keywords alone pass it.
+    const depth = mode === 'hybrid' ? limit * 4 : limit * 2;
+    const vectorHits = mode === 'lexical' ? [] : await this.vectorSearch(question, depth, threshold, allowed, exclude);
+    const lexicalHits = mode === 'vector' ? [] : this.lexicalSearch(question, depth, allowed, includeQueryText, exclude);
+
+    if (mode === 'vector') {
+      return applyFeedback(vectorHits, feedbackWeight).slice(0, limit);
+    }
+    if (mode === 'lexical') {
+      return applyFeedback(lexicalHits, feedbackWeight).slice(0, limit);
+    }
+
+    // Reciprocal rank fusion: each ranking contributes 1 / (RRF_K + rank)
+    const fused = new Map<string, SimilarExample>();
+    for (const hits of [vectorHits, lexicalHits]) {
+      hits.forEach((hit, rank) => {
+        const entry = fused.get(hit.example.id) || { example: hit.example, similarity: 0 };
+        entry.similarity += 1 / (RRF_K + rank + 1);
+        entry.vectorSimilarity = hit.vectorSimilarity ?? entry.vectorSimilarity;
+        entry.lexicalScore = hit.lexicalScore ?? entry.lexicalScore;
+        // The phrasing closest in embedding space wins over the one sharing the most terms
+        entry.matchedQuestion = entry.matchedQuestion ?? hit.matchedQuestion;
+        fused.set(hit.example.id, entry);
+      });
+    }
+
+    // Normalize so that ranking first in both lists scores 1
+    const maxScore = 2 / (RRF_K + 1);
+    const ranked = [...fused.values()]
+      .map(entry => ({ ...entry, similarity: entry.similarity / maxScore }))
+      .sort((a, b) => b.similarity - a.similarity);
+    return applyFeedback(ranked, feedbackWeight).slice(0, limit);
+  }
+
+  private async vectorSearch(
+    question: string,
+    depth: number,
+    threshold: number,
+    allowed: TrainingExample[],
+    exclude?: { id: string; question: string }
+  ): Promise<SimilarExample[]> {
+    const allowedLabels = new Set(allowed.flatMap(example => this.labelsOf(example.id)));
+    if (exclude) {
+      const excluded = this.alternateLabels.get(exclude.id)?.get(exclude.question)
+        ?? (this.trainingData.find(example => example.id === exclude.id)?.question === exclude.question ? this.idToIndex.get(exclude.id) : undefined);
+      if (excluded !== undefined) {
+        allowedLabels.delete(excluded);
+      }
+    }
+    if (allowedLabels.size === 0) {
+      return [];
+    }
+
+    // Generate embedding for the question
+    const questionEmbedding = await this.generateEmbedding(question);
+
+    // Each example can have several phrasings among the neighbours, so look as much deeper as it has
+    // on average to still end up with `depth` examples
+    const searchResults = this.vectorIndex!.searchKnn(
+      questionEmbedding,
+      Math.min(depth * Math.ceil(allowedLabels.size / allowed.length), allowedLabels.size),
+      label => allowedLabels.has(label)
+    );
+
+    // Neighbours come closest first, so the first hit of an example is its best phrasing
+    const similarExamples: SimilarExample[] = [];
+    const seen = new Set<string>();
+    for (let i = 0; i < searchResults.distances.length && similarExamples.length < depth; i++) {
+      const similarity = 1 - searchResults.distances[i]; // Convert distance to similarity
+      const example = this.getExampleByLabel(searchResults.neighbors[i]);
+      if (similarity >= threshold && example && !seen.has(example.id)) {
+        seen.add(example.id);
+        similarExamples.push({
+          example,
+          similarity,
+          vectorSimilarity: similarity,
+          matchedQuestion: this.phrasingOfLabel(searchResults.neighbors[i], example),
+        });
+      }
+    }
+
+    return similarExamples;
+  }
+
+  // BM25 over questions and alternate questions, optionally also over query text; needs no embedding
+  // provider. An example scores as its best matching phrasing.
+  private lexicalSearch(
+    question: string,
+    depth: number,
+    allowed: TrainingExample[],
+    includeQueryText: boolean,
+    exclude?: { id: string; question: string }
+  ): SimilarExample[] {
+    const examplesById = new Map(allowed.map(example => [example.id, example]));
+    const filter = (id: string) => examplesById.has(id);
+    const excludedKey = exclude
+      && lexicalKey(exclude.id, examplesById.get(exclude.id)?.question === exclude.question ? undefined : exclude.question);
+    const exampleIdOf = (key: string) => key.split(LEXICAL_KEY_SEPARATOR)[0];
+
+    const scores = new Map<string, number>();
+    const matchedQuestions = new Map<string, string>();
+    const phrasingDepth = depth * Math.ceil(this.questionIndex.size / Math.max(this.trainingData.length, 1));
+    this.questionIndex
+      .search(question, phrasingDepth, key => key !== excludedKey && filter(exampleIdOf(key)))
+      .forEach(hit => {
+        const id = exampleIdOf(hit.id);
+        if (!scores.has(id)) {
+          // Hits come best first
+          scores.set(id, hit.score);
+          matchedQuestions.set(id, hit.id === id ? examplesById.get(id)!.question : hit.id.slice(id.length + 1));
+        }
+      });
+    if (includeQueryText) {
+      this.queryTextIndex.search(question, depth, filter).forEach(hit => {
+        scores.set(hit.id, (scores.get(hit.id) || 0) + QUERY_TEXT_WEIGHT * hit.score);
+      });
+    }
+
+    const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, depth);
+    const topScore = ranked.length > 0 ? ranked[0][1] : 1;
+    return ranked.map(([id, score]) => ({
+      example: examplesById.get(id)!,
+      similarity: score / topScore,
+      lexicalScore: score,
+      ...(matchedQuestions.has(id) ? { matchedQuestion: matchedQuestions.get(id) } : {}),
+    }));
+  }
+}
@@ -0,0 +1,113 @@
+import { QueryLanguage } from './language.js';
+
+// Keywords that are followed by a binding name rather than a reference, per language
+const SQL_ALIAS_PATTERN = /\b(?:from|join)\s+[\w."]+\s+(?:as\s+)?(?!(?:on|where|join|inner|left|right|full|cross|group|order|limit|using|natural)\b)([a-z_]\w*)|\bas\s+([a-z_]\w*)/gi;
+const CYPHER_VARIABLE_PATTERN = /[(\[]\s*([a-z_]\w*)\s*(?=[:)\]{])|\bas\s+([a-z_]\w*)/gi;
+
+// Canonical form of a query used for near-duplicate detection: whitespace, keyword case and
+// variable or alias names no longer matter, so `MATCH (n:CDE) RETURN n` equals `match (c:CDE)  return c`
+export function normalizeQuery(query: string, language?: QueryLanguage): string {
+  // Keep string literals intact while everything else is rewritten
+  const literals: string[] = [];
+  let normalized = query.replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g, literal => {
+    literals.push(literal);
+    return ` __lit${literals.length - 1}__ `;
+  });
+
+  const names: string[] = [];
+  const collect = (pattern: RegExp) => {
+    for (const match of normalized.matchAll(pattern)) {
+      const name = match[1] || match[2];
+      if (name && !names.includes(name) && !/^__lit\d+__$/.test(name)) {
+        names.push(name);
+      }
+    }
+  };
+
+  if (language === 'sparql') {
+    normalized = renameAll(normalized, /[?$](\w+)/g, (_, index) => `?v${index}`);
+  } else if (language === 'cypher' || language === 'sql') {
+    collect(language === 'cypher' ? CYPHER_VARIABLE_PATTERN : SQL_ALIAS_PATTERN);
+    names.forEach((name, index) => {
+      normalized = normalized.replace(new RegExp(`\\b${name}\\b`, 'g'), `v${index}`);
+    });
+    // `FROM orders AS o` and `FROM orders o` mean the same thing
+    normalized = normalized.replace(/\bas\s+(v\d+)\b/gi, '$1');
+  }
+
+  normalized = normalized
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([(),;{}\[\]=<>:.\-])\s*/g, '$1')
+    .trim()
+    .toLowerCase();
+
+  return normalized.replace(/__lit(\d+)__/g, (_, index) => literals[Number(index)]);
+}
+
+// Rename every distinct match of pattern to a positional placeholder
+function renameAll(text: string, pattern: RegExp, placeholder: (name: string, index: number) => string): string {
+  const names = new Map<string, number>();
+  return text.replace(pattern, (_, name: string) => {
+    if (!names.has(name)) {
+      names.set(name, names.size);
+    }
+    return placeholder(name, names.get(name)!);
+  });
+}
+
+// Dice coefficient over the token multisets of two normalized queries (1 when identical)
+export function querySimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const tokensA = a.match(/\w+|[^\w\s]/g) || [];
+  const tokensB = b.match(/\w+|[^\w\s]/g) || [];
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  tokensA.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  let shared = 0;
+  tokensB.forEach(token => {
+    const count = counts.get(token) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(token, count - 1);
+    }
+  });
+
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+// Group items connected by the given pairs (union-find); singletons are dropped
+export function clusterPairs(pairs: [string, string][]): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) {
+      return id;
+    }
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  pairs.forEach(([a, b]) => {
+    parent.set(a, find(a));
+    parent.set(b, find(b));
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA);
+    }
+  });
+
+  const clusters = new Map<string, string[]>();
+  parent.forEach((_, id) => {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) || []), id]);
+  });
+
+  return [...clusters.values()].filter(cluster => cluster.length > 1);
+}
@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { EmbeddingProvider } from './embeddings.js';
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  sizeBytes: number;
+  path: string;
+}
+
+interface CacheRecord {
+  key: string;
+  // Float32 vector, base64 encoded to keep the file roughly 4x smaller than JSON numbers
+  vector: string;
+}
+
+const encodeVector = (vector: number[]) => Buffer.from(new Float32Array(vector).buffer).toString('base64');
+
+const decodeVector = (encoded: string) => {
+  const buffer = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+};
+
+// Wraps an embedding provider with an on-disk cache keyed by model name and a hash of the text,
+// so re-indexing only calls the provider for text it has never embedded before.
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private cache: Map<string, number[]> = new Map();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private inner: EmbeddingProvider, private cachePath: string) {}
+
+  get provider() {
+    return this.inner.provider;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  getDimension(): Promise<number> {
+    return this.inner.getDimension();
+  }
+
+  // Load the append-only cache file; unreadable lines are skipped rather than failing startup
+  async load() {
+    this.cache.clear();
+    if (!(await fs.pathExists(this.cachePath))) {
+      return;
+    }
+
+    const content = await fs.readFile(this.cachePath, 'utf8');
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        const record: CacheRecord = JSON.parse(line);
+        this.cache.set(record.key, decodeVector(record.vector));
+      } catch (error) {
+        console.error('Skipping unreadable embedding cache entry');
+      }
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return (await this.embedBatch([text]))[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const dimension = await this.inner.getDimension();
+    const keys = texts.map(text => this.cacheKey(text));
+    const results: (number[] | undefined)[] = keys.map(key => {
+      const cached = this.cache.get(key);
+      // Entries written with a different dimension (e.g. a changed dimensions override) are stale
+      return cached && cached.length === dimension ? cached : undefined;
+    });
+
+    const missing = new Map<string, number[]>(); // key -> positions in texts
+    results.forEach((result, index) => {
+      if (result) {
+        this.hits++;
+      } else {
+        missing.set(keys[index], [...(missing.get(keys[index]) || []), index]);
+      }
+    });
+
+    if (missing.size > 0) {
+      const missingKeys = [...missing.keys()];
+      const embeddings = await this.inner.embedBatch(missingKeys.map(key => texts[missing.get(key)![0]]));
+      this.misses += missingKeys.length;
+
+      const records: string[] = [];
+      missingKeys.forEach((key, index) => {
+        const embedding = embeddings[index];
+        this.cache.set(key, embedding);
+        missing.get(key)!.forEach(position => {
+          results[position] = embedding;
+        });
+        records.push(JSON.stringify({ key, vector: encodeVector(embedding) } as CacheRecord));
+      });
+      await fs.appendFile(this.cachePath, records.join('\n') + '\n');
+    }
+
+    return results as number[][];
+  }
+
+  async stats(): Promise<EmbeddingCacheStats> {
+    const sizeBytes = (await fs.pathExists(this.cachePath)) ? (await fs.stat(this.cachePath)).size : 0;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.cache.size,
+      sizeBytes,
+      path: this.cachePath,
+    };
+  }
+
+  private cacheKey(text: string) {
+    return `${this.inner.model}:${createHash('sha256').update(text).digest('hex')}`;
+  }
+}
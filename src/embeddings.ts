@@ -0,0 +1,168 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import OpenAI from 'openai';
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+export const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = ['openai', 'openai-compatible', 'local'];
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model?: string;
+  dimension?: number;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface EmbeddingProvider {
+  readonly provider: EmbeddingProviderName;
+  readonly model: string;
+  getDimension(): Promise<number>;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_OPENAI_DIMENSION = 1536; // OpenAI text-embedding-3-small dimension
+const DEFAULT_LOCAL_MODEL = 'local-hashed-ngrams-v1';
+const DEFAULT_LOCAL_DIMENSION = 512;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+// Embeds text through the OpenAI embeddings API, or any server that speaks the same protocol
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private client: OpenAI | null = null;
+  private dimension?: number;
+
+  constructor(
+    readonly provider: 'openai' | 'openai-compatible',
+    readonly model: string,
+    private config: EmbeddingConfig
+  ) {
+    this.dimension = config.dimension;
+    if (provider === 'openai' && config.apiKey) {
+      this.client = new OpenAI({ apiKey: config.apiKey });
+    } else if (provider === 'openai-compatible' && config.baseUrl) {
+      // Local servers (Ollama, llama.cpp, vLLM, ...) usually ignore the key, but the client requires one
+      this.client = new OpenAI({ apiKey: config.apiKey || 'not-needed', baseURL: config.baseUrl });
+    }
+  }
+
+  async getDimension(): Promise<number> {
+    if (this.dimension === undefined) {
+      if (this.provider === 'openai') {
+        this.dimension = DEFAULT_OPENAI_DIMENSION;
+      } else {
+        // The endpoint does not advertise its dimension, so probe it once
+        this.dimension = (await this.embed('dimension probe')).length;
+      }
+    }
+    return this.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return (await this.embedBatch([text]))[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        this.provider === 'openai'
+          ? 'OpenAI API key not configured. Please provide it via --openai-key argument or set OPENAI_API_KEY environment variable.'
+          : 'Embedding endpoint not configured. Please provide it via --embedding-base-url argument or set EMBEDDING_BASE_URL environment variable.'
+      );
+    }
+
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts,
+        // Only text-embedding-3 style models accept a dimension override
+        ...(this.provider === 'openai' && this.config.dimension ? { dimensions: this.config.dimension } : {}),
+      });
+
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to generate embedding: ${errorMessage(error)}`
+      );
+    }
+  }
+}
+
+// Deterministic, network-free embedder: word unigrams/bigrams and character trigrams
+// are hashed into a fixed number of signed buckets and the result is L2-normalized.
+class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'local' as const;
+
+  constructor(readonly model: string, private dimension: number) {}
+
+  async getDimension(): Promise<number> {
+    return this.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimension;
+      // Use an independent bit for the sign so collisions tend to cancel out
+      const sign = (fnv1a(`#${feature}`) & 1) === 0 ? 1 : -1;
+      vector[bucket] += sign * weight;
+    };
+
+    words.forEach((word, index) => {
+      addFeature(`w:${word}`, 1);
+      if (index > 0) {
+        addFeature(`b:${words[index - 1]} ${word}`, 0.5);
+      }
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) {
+      // hnswlib's cosine space cannot handle a zero vector, so fall back to a fixed unit vector
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map(value => value / norm);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export const isEmbeddingProviderName = (value: any): value is EmbeddingProviderName =>
+  EMBEDDING_PROVIDER_NAMES.includes(value);
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider('openai', config.model || DEFAULT_OPENAI_MODEL, config);
+    case 'openai-compatible':
+      if (!config.model) {
+        throw new Error('An embedding model name is required for the openai-compatible provider (--embedding-model or EMBEDDING_MODEL)');
+      }
+      return new OpenAIEmbeddingProvider('openai-compatible', config.model, config);
+    case 'local':
+      return new LocalEmbeddingProvider(config.model || DEFAULT_LOCAL_MODEL, config.dimension || DEFAULT_LOCAL_DIMENSION);
+  }
+}
@@ -0,0 +1,338 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DEFAULT_FEEDBACK_WEIGHT, QueryCollection } from './collection.js';
+import { normalizeQuery } from './duplicates.js';
+import { QueryLanguage, isQueryLanguage } from './language.js';
+import { writeJsonAtomic } from './persistence.js';
+import { SEARCH_MODES, SearchMode, SimilarExample, TrainingExample } from './types.js';
+
+// One labeled question: the examples (by ID) or queries a good retrieval should return for it
+export interface EvaluationCase {
+  question: string;
+  expected_ids?: string[];
+  expected_queries?: string[];
+  language?: QueryLanguage;
+  // Leave-one-out cases: the example whose alternate question is the probe
+  source_id?: string;
+}
+
+export interface EvaluationConfiguration {
+  mode: SearchMode;
+  // Default: find_similar_queries' default threshold
+  threshold?: number;
+  include_query_text?: boolean;
+  feedback_weight?: number;
+}
+
+// Contents of a test set file: an array of cases, or an object that can also choose the configurations
+export interface EvaluationTestSet {
+  cases: EvaluationCase[];
+  configurations?: EvaluationConfiguration[];
+  k_values?: number[];
+}
+
+export interface CaseResult {
+  question: string;
+  expected: number;
+  // Expected items within the top max(k) results
+  found: number;
+  // 1-based rank of the first expected item, if retrieved
+  rank?: number;
+  // Lowest swept threshold at which the case lost all its hits; only for cases hit at threshold 0
+  lost_at_threshold?: number;
+  top_ids: string[];
+}
+
+export interface ConfigurationResult {
+  label: string;
+  configuration: EvaluationConfiguration;
+  recall_at_k: { [k: string]: number };
+  mrr: number;
+  // Recall at max(k) for each threshold, for vector and hybrid modes
+  threshold_sweep?: { threshold: number; recall: number }[];
+  cases: CaseResult[];
+}
+
+export interface EvaluationReport {
+  created_at: string;
+  collection: string;
+  // Where the cases came from: a file path, "inline" or "leave-one-out"
+  test_set: string;
+  case_count: number;
+  example_count: number;
+  k_values: number[];
+  results: ConfigurationResult[];
+}
+
+export const DEFAULT_K_VALUES = [1, 3, 5, 10];
+export const MAX_K = 50;
+const DEFAULT_THRESHOLD = 0.7;
+const THRESHOLD_STEP = 0.05;
+const EVALUATIONS_DIR = 'evaluations';
+
+export const DEFAULT_CONFIGURATIONS: EvaluationConfiguration[] = SEARCH_MODES.map(mode => ({ mode }));
+
+const isStringArray = (value: any): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Check an untyped list of cases; returns the problems found
+export function validateEvaluationCases(raw: any): string[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return ['"cases" must be a non-empty array'];
+  }
+  const errors: string[] = [];
+  raw.forEach((item, index) => {
+    const at = `Case ${index + 1}`;
+    if (typeof item !== 'object' || item === null || typeof item.question !== 'string' || item.question.trim() === '') {
+      errors.push(`${at}: "question" is required`);
+      return;
+    }
+    if (item.expected_ids !== undefined && !isStringArray(item.expected_ids)) {
+      errors.push(`${at}: "expected_ids" must be an array of strings`);
+    }
+    if (item.expected_queries !== undefined && !isStringArray(item.expected_queries)) {
+      errors.push(`${at}: "expected_queries" must be an array of strings`);
+    }
+    if ((item.expected_ids?.length || 0) + (item.expected_queries?.length || 0) === 0) {
+      errors.push(`${at}: needs expected_ids or expected_queries`);
+    }
+    if (item.language !== undefined && !isQueryLanguage(item.language)) {
+      errors.push(`${at}: unknown language "${item.language}"`);
+    }
+  });
+  return errors;
+}
+
+export function validateEvaluationConfigurations(raw: any): string[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return ['"configurations" must be a non-empty array'];
+  }
+  const errors: string[] = [];
+  raw.forEach((item, index) => {
+    const at = `Configuration ${index + 1}`;
+    if (typeof item !== 'object' || item === null || !SEARCH_MODES.includes(item.mode)) {
+      errors.push(`${at}: "mode" must be one of: ${SEARCH_MODES.join(', ')}`);
+      return;
+    }
+    if (item.threshold !== undefined && (typeof item.threshold !== 'number' || item.threshold < 0 || item.threshold > 1)) {
+      errors.push(`${at}: "threshold" must be a number between 0 and 1`);
+    }
+    if (item.include_query_text !== undefined && typeof item.include_query_text !== 'boolean') {
+      errors.push(`${at}: "include_query_text" must be a boolean`);
+    }
+    if (item.feedback_weight !== undefined && (typeof item.feedback_weight !== 'number' || item.feedback_weight < 0 || item.feedback_weight > 1)) {
+      errors.push(`${at}: "feedback_weight" must be a number between 0 and 1`);
+    }
+  });
+  return errors;
+}
+
+export function validateKValues(raw: any): string[] {
+  return Array.isArray(raw) && raw.length > 0 && raw.every(k => Number.isInteger(k) && k >= 1 && k <= MAX_K)
+    ? []
+    : [`"k_values" must be a non-empty array of integers between 1 and ${MAX_K}`];
+}
+
+export function validateEvaluationTestSet(raw: any): string[] {
+  return [
+    ...validateEvaluationCases(raw.cases),
+    ...(raw.configurations !== undefined ? validateEvaluationConfigurations(raw.configurations) : []),
+    ...(raw.k_values !== undefined ? validateKValues(raw.k_values) : []),
+  ];
+}
+
+export async function readEvaluationTestSet(file: string): Promise<EvaluationTestSet> {
+  const raw = await fs.readJson(file);
+  const testSet = Array.isArray(raw) ? { cases: raw } : raw;
+  const errors = typeof testSet === 'object' && testSet !== null ? validateEvaluationTestSet(testSet) : ['expected an array of cases or an object'];
+  if (errors.length > 0) {
+    throw new Error(`Invalid test set ${file}: ${errors.join('; ')}`);
+  }
+  return testSet;
+}
+
+// Every alternate question probes for the example it belongs to. Alternate questions have vectors of
+// their own, so the search leaves out the probe (see source_id) and has to match another phrasing.
+export function leaveOneOutCases(examples: TrainingExample[]): EvaluationCase[] {
+  return examples.flatMap(example =>
+    (example.alternate_questions || []).map(question => ({
+      question,
+      expected_ids: [example.id],
+      ...(example.language ? { language: example.language } : {}),
+      source_id: example.id,
+    }))
+  );
+}
+
+export function configurationLabel(configuration: EvaluationConfiguration): string {
+  return [
+    configuration.mode,
+    configuration.mode !== 'lexical' ? `threshold=${configuration.threshold}` : '',
+    configuration.include_query_text ? 'query_text' : '',
+    configuration.feedback_weight !== undefined ? `feedback=${configuration.feedback_weight}` : '',
+  ].filter(Boolean).join(' ');
+}
+
+// Positions (0-based) at which each expected item of a case is first retrieved, -1 when missing
+function expectedPositions(testCase: EvaluationCase, hits: SimilarExample[]): number[] {
+  const byId = (testCase.expected_ids || []).map(id => hits.findIndex(hit => hit.example.id === id));
+  const byQuery = (testCase.expected_queries || []).map(query =>
+    hits.findIndex(hit => normalizeQuery(hit.example.query, hit.example.language) === normalizeQuery(query, hit.example.language))
+  );
+  return [...byId, ...byQuery];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Run every case under every configuration. Searches return max(k) results; recall@k is the share of
+// expected items in the top k, averaged over cases, and MRR the mean of 1 / rank of the first one.
+export async function evaluateRetrieval(
+  collection: QueryCollection,
+  cases: EvaluationCase[],
+  options: { configurations?: EvaluationConfiguration[]; kValues?: number[]; testSet: string }
+): Promise<EvaluationReport> {
+  const configurations = (options.configurations || DEFAULT_CONFIGURATIONS)
+    .map(configuration => ({ ...configuration, threshold: configuration.threshold ?? DEFAULT_THRESHOLD }));
+  const kValues = [...new Set(options.kValues || DEFAULT_K_VALUES)].sort((a, b) => a - b);
+  const limit = kValues[kValues.length - 1];
+  const thresholds = Array.from({ length: Math.round(1 / THRESHOLD_STEP) + 1 }, (_, index) => round(index * THRESHOLD_STEP));
+
+  const results: ConfigurationResult[] = [];
+  for (const configuration of configurations) {
+    const search = (testCase: EvaluationCase, threshold: number) =>
+      collection.findSimilarExamples(
+        testCase.question,
+        limit,
+        threshold,
+        testCase.language ? { language: testCase.language } : {},
+        {
+          mode: configuration.mode,
+          includeQueryText: configuration.include_query_text,
+          feedbackWeight: configuration.feedback_weight ?? DEFAULT_FEEDBACK_WEIGHT,
+          ...(testCase.source_id ? { exclude: { id: testCase.source_id, question: testCase.question } } : {}),
+        }
+      );
+    const sweep = configuration.mode !== 'lexical';
+    const sweepRecall = thresholds.map(() => 0);
+    const caseResults: CaseResult[] = [];
+    // Expected item positions per case, for recall at each k
+    const casePositions: number[][] = [];
+
+    for (const testCase of cases) {
+      const hits = await search(testCase, configuration.threshold);
+      const positions = expectedPositions(testCase, hits);
+      const retrieved = positions.filter(position => position >= 0);
+      const result: CaseResult = {
+        question: testCase.question,
+        expected: positions.length,
+        found: retrieved.length,
+        ...(retrieved.length > 0 ? { rank: Math.min(...retrieved) + 1 } : {}),
+        top_ids: hits.map(hit => hit.example.id),
+      };
+
+      if (sweep) {
+        for (let index = 0; index < thresholds.length; index++) {
+          const found = expectedPositions(testCase, await search(testCase, thresholds[index])).filter(position => position >= 0).length;
+          if (found === 0 && index === 0) {
+            break; // missed even without a threshold, so the threshold is not to blame
+          }
+          sweepRecall[index] += found / positions.length;
+          if (found === 0 && result.lost_at_threshold === undefined) {
+            result.lost_at_threshold = thresholds[index];
+          }
+        }
+      }
+      caseResults.push(result);
+      casePositions.push(positions);
+    }
+
+    const recallAt = (k: number) =>
+      round(casePositions.reduce((sum, positions) => sum + positions.filter(position => position >= 0 && position < k).length / positions.length, 0) / cases.length);
+
+    results.push({
+      label: configurationLabel(configuration),
+      configuration,
+      recall_at_k: Object.fromEntries(kValues.map(k => [String(k), recallAt(k)])),
+      mrr: round(caseResults.reduce((sum, result) => sum + (result.rank ? 1 / result.rank : 0), 0) / cases.length),
+      ...(sweep ? { threshold_sweep: thresholds.map((threshold, index) => ({ threshold, recall: round(sweepRecall[index] / cases.length) })) } : {}),
+      cases: caseResults,
+    });
+  }
+
+  return {
+    created_at: new Date().toISOString(),
+    collection: collection.name,
+    test_set: options.testSet,
+    case_count: cases.length,
+    example_count: collection.trainingData.length,
+    k_values: kValues,
+    results,
+  };
+}
+
+// Reports are kept as {collection directory}/evaluations/{created_at}.json; returns the file written
+export async function writeEvaluationReport(collectionDir: string, report: EvaluationReport): Promise<string> {
+  const directory = path.join(collectionDir, EVALUATIONS_DIR);
+  await fs.ensureDir(directory);
+  const file = path.join(directory, `${report.created_at.replace(/[:.]/g, '-')}.json`);
+  await writeJsonAtomic(file, report);
+  return file;
+}
+
+// The most recent earlier report on the same test set, to compare a run against
+export async function readPreviousEvaluation(collectionDir: string, testSet: string): Promise<EvaluationReport | undefined> {
+  const directory = path.join(collectionDir, EVALUATIONS_DIR);
+  if (!(await fs.pathExists(directory))) {
+    return undefined;
+  }
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort().reverse();
+  for (const file of files) {
+    const report: EvaluationReport | undefined = await fs.readJson(path.join(directory, file)).catch(() => undefined);
+    if (report?.test_set === testSet) {
+      return report;
+    }
+  }
+  return undefined;
+}
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${round(value)}`;
+
+export function formatEvaluationReport(report: EvaluationReport, previous?: EvaluationReport): string {
+  const lines = [
+    `Evaluated ${report.case_count} cases from ${report.test_set} against ${report.example_count} examples in collection "${report.collection}"` +
+      (previous ? `, compared with the run of ${previous.created_at}` : ''),
+  ];
+
+  for (const result of report.results) {
+    const before = previous?.results.find(candidate => candidate.label === result.label);
+    const threshold = result.configuration.threshold!;
+    const lostToThreshold = (item: CaseResult) =>
+      item.found === 0 && item.lost_at_threshold !== undefined && item.lost_at_threshold <= threshold;
+    const change = (value: number, old: number | undefined) => (old !== undefined ? ` (${signed(value - old)})` : '');
+    lines.push(
+      '',
+      `${result.label}:`,
+      `  ${report.k_values.map(k => `recall@${k} ${result.recall_at_k[k]}${change(result.recall_at_k[k], before?.recall_at_k[k])}`).join(', ')}`,
+      `  MRR ${result.mrr}${change(result.mrr, before?.mrr)}`
+    );
+
+    if (result.threshold_sweep) {
+      const recallAtZero = result.threshold_sweep[0].recall;
+      // The highest threshold that still keeps every hit found without one
+      const safe = result.threshold_sweep.filter(point => point.recall >= recallAtZero).pop()!;
+      lines.push(`  Recall@${report.k_values[report.k_values.length - 1]} stays at ${recallAtZero} up to threshold ${safe.threshold}`);
+      const lost = result.cases.filter(lostToThreshold);
+      if (lost.length > 0) {
+        lines.push(`  Lost to the threshold of ${threshold}:`);
+        lost.forEach(item => lines.push(`    "${item.question}" (lost at ${item.lost_at_threshold})`));
+      }
+    }
+
+    const missed = result.cases.filter(item => item.found === 0 && !lostToThreshold(item));
+    if (missed.length > 0) {
+      lines.push(`  Missed: ${missed.map(item => `"${item.question}"`).join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,312 @@
+import { ChildProcess, fork } from 'child_process';
+import fs from 'fs-extra';
+import neo4j, { Driver } from 'neo4j-driver';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { QueryLanguage } from './language.js';
+import { writeJsonAtomic } from './persistence.js';
+
+export type ExecutorType = 'sqlite' | 'neo4j' | 'sparql';
+
+export const EXECUTOR_TYPES: ExecutorType[] = ['sqlite', 'neo4j', 'sparql'];
+
+// Stored as executor.json in the collection directory. Secrets are never stored: the config
+// names the environment variable that holds them.
+export interface ExecutorConfig {
+  type: ExecutorType;
+  // sqlite: database file, absolute or relative to the data directory
+  path?: string;
+  // neo4j: Bolt URL, e.g. bolt://localhost:7687
+  url?: string;
+  username?: string;
+  password_env?: string;
+  database?: string;
+  // sparql: query endpoint URL
+  endpoint?: string;
+  auth_token_env?: string;
+}
+
+export interface ExecuteOptions {
+  maxRows: number;
+  timeoutMs: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: unknown[][];
+  // More rows were available than maxRows
+  truncated: boolean;
+  elapsedMs: number;
+}
+
+export interface QueryExecutor {
+  readonly type: ExecutorType;
+  readonly language: QueryLanguage;
+  describe(): string;
+  execute(query: string, options: ExecuteOptions): Promise<QueryResult>;
+  close(): Promise<void>;
+}
+
+const EXECUTOR_CONFIG_FILE = 'executor.json';
+const DEFAULT_NEO4J_USERNAME = 'neo4j';
+const DEFAULT_NEO4J_PASSWORD_ENV = 'NEO4J_PASSWORD';
+
+export const isExecutorType = (value: any): value is ExecutorType => EXECUTOR_TYPES.includes(value);
+
+class QueryTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Query timed out after ${timeoutMs} ms`);
+  }
+}
+
+// Check an untyped executor definition; returns the problems found
+export function validateExecutorConfig(raw: any): string[] {
+  const required: { [type in ExecutorType]: keyof ExecutorConfig } = { sqlite: 'path', neo4j: 'url', sparql: 'endpoint' };
+  if (!isExecutorType(raw.type)) {
+    return [`"type" must be one of: ${EXECUTOR_TYPES.join(', ')}`];
+  }
+  const errors: string[] = [];
+  const field = required[raw.type as ExecutorType];
+  if (typeof raw[field] !== 'string' || raw[field].trim() === '') {
+    errors.push(`"${field}" is required for a ${raw.type} executor`);
+  }
+  for (const optional of ['username', 'password_env', 'database', 'auth_token_env']) {
+    if (raw[optional] !== undefined && typeof raw[optional] !== 'string') {
+      errors.push(`"${optional}" must be a string`);
+    }
+  }
+  return errors;
+}
+
+export async function readExecutorConfig(collectionDir: string): Promise<ExecutorConfig | undefined> {
+  const file = path.join(collectionDir, EXECUTOR_CONFIG_FILE);
+  return (await fs.pathExists(file)) ? fs.readJson(file) : undefined;
+}
+
+export async function writeExecutorConfig(collectionDir: string, config: ExecutorConfig | undefined) {
+  const file = path.join(collectionDir, EXECUTOR_CONFIG_FILE);
+  if (config) {
+    await writeJsonAtomic(file, config);
+  } else {
+    await fs.remove(file);
+  }
+}
+
+// Reject when the promise takes longer than timeoutMs, running onTimeout to abandon the work
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => void): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(new QueryTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Queries run one at a time in a child process, see sqliteWorker.ts. The database is opened read-only.
+class SqliteExecutor implements QueryExecutor {
+  readonly type = 'sqlite' as const;
+  readonly language = 'sql' as const;
+  private child?: ChildProcess;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private databasePath: string) {}
+
+  describe() {
+    return `SQLite database ${this.databasePath}`;
+  }
+
+  execute(query: string, options: ExecuteOptions): Promise<QueryResult> {
+    const run = this.queue.then(() => this.run(query, options));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async run(query: string, options: ExecuteOptions): Promise<QueryResult> {
+    const started = Date.now();
+    const child = this.child ??= this.spawn();
+    const reply = new Promise<{ columns: string[]; rows: unknown[][]; truncated: boolean; error?: string }>((resolve, reject) => {
+      const onExit = (code: number | null) => reject(new Error(`SQLite process exited unexpectedly (code ${code})`));
+      child.once('exit', onExit);
+      child.once('message', message => {
+        child.off('exit', onExit);
+        resolve(message as any);
+      });
+    });
+    child.send({ query, maxRows: options.maxRows });
+
+    // A query still running at the timeout can only be stopped by killing the process
+    const { error, ...rows } = await withTimeout(reply, options.timeoutMs, () => this.stop());
+    if (error) {
+      throw new Error(error);
+    }
+    return { ...rows, elapsedMs: Date.now() - started };
+  }
+
+  private spawn(): ChildProcess {
+    const child = fork(fileURLToPath(new URL('./sqliteWorker.js', import.meta.url)), [this.databasePath], {
+      // stdout belongs to the MCP stdio transport
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+    });
+    child.on('exit', () => {
+      if (this.child === child) {
+        this.child = undefined;
+      }
+    });
+    // An idle query process must not keep the server alive
+    child.unref();
+    child.channel?.unref();
+    return child;
+  }
+
+  private stop() {
+    this.child?.kill('SIGKILL');
+    this.child = undefined;
+  }
+
+  async close() {
+    this.stop();
+  }
+}
+
+// Convert driver values (integers, nodes, relationships, temporal types) to plain JSON values
+function toPlainValue(value: any): unknown {
+  if (neo4j.isInt(value)) {
+    return value.inSafeRange() ? value.toNumber() : value.toString();
+  }
+  if (value instanceof neo4j.types.Node) {
+    return { labels: value.labels, properties: toPlainValue(value.properties) };
+  }
+  if (value instanceof neo4j.types.Relationship) {
+    return { type: value.type, properties: toPlainValue(value.properties) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    if (Object.getPrototypeOf(value) !== Object.prototype) {
+      return String(value); // paths, points, dates and durations
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlainValue(item)]));
+  }
+  return value;
+}
+
+// Sessions use READ access mode, in which the server refuses writes, so a stored query can't change the graph
+class Neo4jExecutor implements QueryExecutor {
+  readonly type = 'neo4j' as const;
+  readonly language = 'cypher' as const;
+  private driver: Driver;
+
+  constructor(private config: ExecutorConfig) {
+    const password = process.env[config.password_env || DEFAULT_NEO4J_PASSWORD_ENV];
+    this.driver = neo4j.driver(
+      config.url!,
+      password !== undefined ? neo4j.auth.basic(config.username || DEFAULT_NEO4J_USERNAME, password) : undefined
+    );
+  }
+
+  describe() {
+    return `Neo4j database ${this.config.url}${this.config.database ? ` (${this.config.database})` : ''}`;
+  }
+
+  async execute(query: string, options: ExecuteOptions): Promise<QueryResult> {
+    const started = Date.now();
+    const session = this.driver.session({ database: this.config.database, defaultAccessMode: neo4j.session.READ });
+    try {
+      // No retries: a query that fails is reported right away instead of after the retry period
+      const result = session.run(query, {}, { timeout: options.timeoutMs });
+      const read = async () => {
+        const columns = [...(await result.keys())];
+        const rows: unknown[][] = [];
+        let truncated = false;
+        for await (const record of result) {
+          if (rows.length === options.maxRows) {
+            truncated = true;
+            break;
+          }
+          rows.push(columns.map(column => toPlainValue(record.get(column))));
+        }
+        return { columns, rows, truncated, elapsedMs: Date.now() - started };
+      };
+      // The server also aborts the transaction at the same timeout
+      return await withTimeout(read(), options.timeoutMs, () => session.close());
+    } finally {
+      await session.close();
+    }
+  }
+
+  async close() {
+    await this.driver.close();
+  }
+}
+
+// SELECT and ASK queries over the SPARQL 1.1 protocol. Updates go to a separate protocol,
+// so the query endpoint can't change the data.
+class SparqlExecutor implements QueryExecutor {
+  readonly type = 'sparql' as const;
+  readonly language = 'sparql' as const;
+
+  constructor(private config: ExecutorConfig) {}
+
+  describe() {
+    return `SPARQL endpoint ${this.config.endpoint}`;
+  }
+
+  async execute(query: string, options: ExecuteOptions): Promise<QueryResult> {
+    const started = Date.now();
+    const token = this.config.auth_token_env ? process.env[this.config.auth_token_env] : undefined;
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.endpoint!, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/sparql-query',
+          Accept: 'application/sparql-results+json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: query,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+    } catch (error: any) {
+      throw error?.name === 'TimeoutError' ? new QueryTimeoutError(options.timeoutMs) : error;
+    }
+
+    if (!response.ok) {
+      const body = (await response.text()).slice(0, 500);
+      throw new Error(`Endpoint returned HTTP ${response.status}${body ? `: ${body}` : ''}`);
+    }
+    if (!response.headers.get('content-type')?.includes('json')) {
+      throw new Error('Endpoint did not return SPARQL JSON results; only SELECT and ASK queries can be executed');
+    }
+
+    const results = await response.json();
+    if (typeof results.boolean === 'boolean') {
+      return { columns: ['boolean'], rows: [[results.boolean]], truncated: false, elapsedMs: Date.now() - started };
+    }
+
+    const columns: string[] = results.head?.vars || [];
+    const bindings: any[] = results.results?.bindings || [];
+    return {
+      columns,
+      rows: bindings.slice(0, options.maxRows).map(binding => columns.map(column => binding[column]?.value ?? null)),
+      truncated: bindings.length > options.maxRows,
+      elapsedMs: Date.now() - started,
+    };
+  }
+
+  async close() {}
+}
+
+export function createQueryExecutor(config: ExecutorConfig, dataDir: string): QueryExecutor {
+  switch (config.type) {
+    case 'sqlite':
+      return new SqliteExecutor(path.resolve(dataDir, config.path!));
+    case 'neo4j':
+      return new Neo4jExecutor(config);
+    case 'sparql':
+      return new SparqlExecutor(config);
+  }
+}
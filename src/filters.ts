@@ -0,0 +1,44 @@
+import { SearchFilters, TrainingExample } from './types.js';
+
+export const isValidDateString = (value: any) => typeof value === 'string' && !isNaN(Date.parse(value));
+
+// Whether an example passes every given filter; filters that are not set always pass
+export function matchesFilters(example: TrainingExample, filters: SearchFilters): boolean {
+  const metadata = example.metadata || {};
+
+  if (filters.language && example.language !== filters.language) {
+    return false;
+  }
+  if (filters.domain && metadata.domain !== filters.domain) {
+    return false;
+  }
+  if (filters.complexity && metadata.complexity !== filters.complexity) {
+    return false;
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    const tags = new Set(metadata.tags || []);
+    const matches = filters.tagsMatch === 'all'
+      ? filters.tags.every(tag => tags.has(tag))
+      : filters.tags.some(tag => tags.has(tag));
+    if (!matches) {
+      return false;
+    }
+  }
+
+  if (filters.createdAfter || filters.createdBefore) {
+    // Examples without a creation date can't be placed in a date range
+    const created = metadata.created_at ? Date.parse(metadata.created_at) : NaN;
+    if (isNaN(created)) {
+      return false;
+    }
+    if (filters.createdAfter && created < Date.parse(filters.createdAfter)) {
+      return false;
+    }
+    if (filters.createdBefore && created > Date.parse(filters.createdBefore)) {
+      return false;
+    }
+  }
+
+  return true;
+}
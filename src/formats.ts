@@ -0,0 +1,275 @@
+import YAML from 'yaml';
+import { QUERY_LANGUAGES, isQueryLanguage } from './language.js';
+import { validateTemplate } from './templates.js';
+import { TrainingExample } from './types.js';
+
+export type DataFormat = 'jsonl' | 'csv' | 'yaml';
+
+export const DATA_FORMATS: DataFormat[] = ['jsonl', 'csv', 'yaml'];
+
+export const COMPLEXITY_LEVELS = ['simple', 'medium', 'complex'];
+
+// A training example as it appears in an import file: the ID is optional and kept when given
+export type ImportedExample = Omit<TrainingExample, 'id'> & { id?: string };
+
+export interface ParsedRow {
+  row: number; // 1-based record number within the file
+  example?: ImportedExample;
+  errors: string[];
+}
+
+const CSV_COLUMNS = [
+  'id', 'question', 'alternate_questions', 'query', 'language', 'domain', 'complexity', 'tags', 'created_at', 'updated_at',
+  'template', 'verification', 'feedback',
+];
+const CSV_TAG_SEPARATOR = ';';
+// Alternate questions may contain any punctuation, so each goes on its own line within the cell
+const CSV_ALTERNATE_QUESTION_SEPARATOR = '\n';
+// Structured fields are kept as JSON cells, so an export imports back without losing them
+const CSV_JSON_COLUMNS = ['template', 'verification', 'feedback'];
+
+export const isDataFormat = (value: any): value is DataFormat => DATA_FORMATS.includes(value);
+
+// Check an untyped record against the TrainingExample shape
+export function validateTrainingExample(raw: any): { example?: ImportedExample; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['Row must be an object'] };
+  }
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || raw.id.trim() === '')) {
+    errors.push('"id" must be a non-empty string');
+  }
+  if (typeof raw.question !== 'string' || raw.question.trim() === '') {
+    errors.push('"question" must be a non-empty string');
+  }
+  if (typeof raw.query !== 'string' || raw.query.trim() === '') {
+    errors.push('"query" must be a non-empty string');
+  }
+  if (
+    raw.alternate_questions !== undefined &&
+    !(Array.isArray(raw.alternate_questions) && raw.alternate_questions.every((q: any) => typeof q === 'string' && q.trim() !== ''))
+  ) {
+    errors.push('"alternate_questions" must be an array of non-empty strings');
+  }
+  if (raw.language !== undefined && !isQueryLanguage(raw.language)) {
+    errors.push(`"language" must be one of: ${QUERY_LANGUAGES.join(', ')}`);
+  }
+  if (raw.template !== undefined) {
+    errors.push(...validateTemplate(raw.template));
+  }
+
+  const metadata = raw.metadata;
+  if (metadata !== undefined) {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      errors.push('"metadata" must be an object');
+    } else {
+      for (const field of ['domain', 'created_at', 'updated_at']) {
+        if (metadata[field] !== undefined && typeof metadata[field] !== 'string') {
+          errors.push(`"metadata.${field}" must be a string`);
+        }
+      }
+      if (metadata.complexity !== undefined && !COMPLEXITY_LEVELS.includes(metadata.complexity)) {
+        errors.push(`"metadata.complexity" must be one of: ${COMPLEXITY_LEVELS.join(', ')}`);
+      }
+      if (
+        metadata.tags !== undefined &&
+        !(Array.isArray(metadata.tags) && metadata.tags.every((tag: any) => typeof tag === 'string'))
+      ) {
+        errors.push('"metadata.tags" must be an array of strings');
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    example: {
+      ...(raw.id !== undefined ? { id: raw.id } : {}),
+      question: raw.question,
+      ...(raw.alternate_questions !== undefined ? { alternate_questions: raw.alternate_questions } : {}),
+      query: raw.query,
+      ...(raw.language !== undefined ? { language: raw.language } : {}),
+      ...(raw.template !== undefined ? { template: raw.template } : {}),
+      ...(metadata !== undefined ? { metadata } : {}),
+    },
+    errors,
+  };
+}
+
+export function parseTrainingExamples(format: DataFormat, content: string): ParsedRow[] {
+  const records: { row: number; value?: any; error?: string }[] = [];
+
+  switch (format) {
+    case 'jsonl': {
+      const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+      lines.forEach((line, index) => {
+        try {
+          records.push({ row: index + 1, value: JSON.parse(line) });
+        } catch (error) {
+          records.push({ row: index + 1, error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        }
+      });
+      break;
+    }
+    case 'csv': {
+      const [header, ...rows] = parseCsv(content);
+      if (!header) {
+        break;
+      }
+      const columns = header.map(column => column.trim());
+      rows.forEach((cells, index) => {
+        try {
+          records.push({ row: index + 1, value: csvRowToExample(columns, cells) });
+        } catch (error) {
+          records.push({ row: index + 1, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      });
+      break;
+    }
+    case 'yaml': {
+      const document = YAML.parse(content);
+      // Accept either a bare list or a mapping with an "examples" list
+      const items = Array.isArray(document) ? document : document?.examples;
+      if (!Array.isArray(items)) {
+        throw new Error('YAML content must be a list of examples or a mapping with an "examples" list');
+      }
+      items.forEach((item, index) => records.push({ row: index + 1, value: item }));
+      break;
+    }
+  }
+
+  return records.map(({ row, value, error }) => {
+    if (error) {
+      return { row, errors: [error] };
+    }
+    return { row, ...validateTrainingExample(value) };
+  });
+}
+
+export function serializeTrainingExamples(format: DataFormat, examples: TrainingExample[]): string {
+  switch (format) {
+    case 'jsonl':
+      return examples.map(example => JSON.stringify(example)).join('\n') + (examples.length > 0 ? '\n' : '');
+    case 'csv':
+      return [CSV_COLUMNS, ...examples.map(exampleToCsvRow)]
+        .map(cells => cells.map(escapeCsvCell).join(','))
+        .join('\n') + '\n';
+    case 'yaml':
+      return YAML.stringify(examples);
+  }
+}
+
+function csvRowToExample(columns: string[], cells: string[]): any {
+  const value: { [column: string]: string } = {};
+  columns.forEach((column, index) => {
+    const cell = cells[index];
+    if (cell !== undefined && cell !== '') {
+      value[column] = cell;
+    }
+  });
+
+  const json: { [column: string]: any } = {};
+  for (const column of CSV_JSON_COLUMNS.filter(column => value[column])) {
+    try {
+      json[column] = JSON.parse(value[column]);
+    } catch (error) {
+      throw new Error(`Invalid JSON in "${column}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (typeof json[column] !== 'object' || json[column] === null || Array.isArray(json[column])) {
+      throw new Error(`"${column}" must be a JSON object`);
+    }
+  }
+
+  const metadata: any = {};
+  if (value.domain) metadata.domain = value.domain;
+  if (value.complexity) metadata.complexity = value.complexity;
+  if (value.created_at) metadata.created_at = value.created_at;
+  if (value.updated_at) metadata.updated_at = value.updated_at;
+  if (value.tags) {
+    metadata.tags = value.tags.split(CSV_TAG_SEPARATOR).map(tag => tag.trim()).filter(tag => tag !== '');
+  }
+  if (json.verification) metadata.verification = json.verification;
+  if (json.feedback) metadata.feedback = json.feedback;
+
+  return {
+    ...(value.id ? { id: value.id } : {}),
+    question: value.question,
+    ...(value.alternate_questions
+      ? { alternate_questions: value.alternate_questions.split(CSV_ALTERNATE_QUESTION_SEPARATOR).map(q => q.trim()).filter(q => q !== '') }
+      : {}),
+    query: value.query,
+    ...(value.language ? { language: value.language } : {}),
+    ...(json.template ? { template: json.template } : {}),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+  };
+}
+
+function exampleToCsvRow(example: TrainingExample): string[] {
+  return [
+    example.id,
+    example.question,
+    (example.alternate_questions || []).join(CSV_ALTERNATE_QUESTION_SEPARATOR),
+    example.query,
+    example.language || '',
+    example.metadata?.domain || '',
+    example.metadata?.complexity || '',
+    (example.metadata?.tags || []).join(CSV_TAG_SEPARATOR),
+    example.metadata?.created_at || '',
+    example.metadata?.updated_at || '',
+    example.template ? JSON.stringify(example.template) : '',
+    example.metadata?.verification ? JSON.stringify(example.metadata.verification) : '',
+    example.metadata?.feedback ? JSON.stringify(example.metadata.feedback) : '',
+  ];
+}
+
+function escapeCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+// Minimal RFC 4180 parser: quoted cells may contain commas, doubled quotes and newlines
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
@@ -0,0 +1,188 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+
+export type AccessLevel = 'read-write' | 'read-only';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Bearer tokens; without either, every client gets read-write access
+  authToken?: string;
+  readOnlyToken?: string;
+  // Each session gets its own MCP server, since a server handles exactly one transport
+  createServer: (access: AccessLevel) => Server;
+}
+
+// Paths of the Streamable HTTP endpoint and of the legacy HTTP+SSE transport
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  access: AccessLevel;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Digests have the same length whatever the tokens are, so timingSafeEqual never throws
+const tokenDigest = (token: string) => createHash('sha256').update(token).digest();
+
+const tokenMatches = (given: string, expected: string | undefined) =>
+  expected !== undefined && timingSafeEqual(tokenDigest(given), tokenDigest(expected));
+
+// Resolve the access level granted by the request's bearer token
+function authenticate(req: IncomingMessage, options: HttpServerOptions): AccessLevel {
+  if (options.authToken === undefined && options.readOnlyToken === undefined) {
+    return 'read-write';
+  }
+
+  const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (token && tokenMatches(token, options.authToken)) {
+    return 'read-write';
+  }
+  if (token && tokenMatches(token, options.readOnlyToken)) {
+    return 'read-only';
+  }
+  throw new HttpError(401, token ? 'Invalid bearer token' : 'Missing bearer token');
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}),
+  });
+  // JSON-RPC error shape, as clients of either transport expect
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+// Serve MCP over Streamable HTTP at /mcp, and over the legacy SSE transport at /sse + /messages
+export async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+  const sessions = new Map<string, HttpSession>();
+
+  const getSession = (sessionId: string | undefined, access: AccessLevel): HttpSession | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    // A session keeps the access level it was opened with
+    if (session && session.access !== access) {
+      throw new HttpError(403, 'The token does not match the one this session was opened with');
+    }
+    return session;
+  };
+
+  const openSession = async (transport: HttpSession['transport'], access: AccessLevel) => {
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await options.createServer(access).connect(transport);
+  };
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse, access: AccessLevel) => {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = getSession(sessionId, access);
+
+    if (session) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, 'Session belongs to the SSE transport');
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(sessionId ? 404 : 400, sessionId ? 'Unknown session' : 'No session: send an initialize request first');
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, access });
+      },
+    });
+    await openSession(transport, access);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL, access: AccessLevel) => {
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sessions.set(transport.sessionId, { transport, access });
+      await openSession(transport, access);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      const session = getSession(url.searchParams.get('sessionId') ?? undefined, access);
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        throw new HttpError(404, 'Unknown session');
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    throw new HttpError(405, 'Method not allowed');
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      if (url.pathname !== MCP_PATH && url.pathname !== SSE_PATH && url.pathname !== SSE_MESSAGES_PATH) {
+        throw new HttpError(404, 'Not found');
+      }
+
+      const access = authenticate(req, options);
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableHttp(req, res, access);
+      } else {
+        await handleSse(req, res, url, access);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+      } else {
+        console.error('Error handling HTTP request:', error);
+        sendError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return httpServer;
+}
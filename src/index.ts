@@ -4,167 +4,981 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import OpenAI from 'openai';
-import pkg from 'hnswlib-node';
-const { HierarchicalNSW } = pkg;
 import fs from 'fs-extra';
-
-// Type for HierarchicalNSW
-type HierarchicalNSWType = InstanceType<typeof HierarchicalNSW>;
 import path from 'path';
 import { fileURLToPath } from 'url';
+import {
+  EMBEDDING_PROVIDER_NAMES,
+  EmbeddingConfig,
+  EmbeddingProviderName,
+  createEmbeddingProvider,
+  isEmbeddingProviderName,
+} from './embeddings.js';
+import { CachedEmbeddingProvider } from './embeddingCache.js';
+import {
+  DEFAULT_FEEDBACK_WEIGHT,
+  EMBEDDING_BATCH_SIZE,
+  ExampleEvent,
+  IndexCheckReport,
+  NEAR_DUPLICATE_QUERY_WEIGHT,
+  NEAR_DUPLICATE_THRESHOLD,
+  QueryCollection,
+} from './collection.js';
+import {
+  COMPLEXITY_LEVELS,
+  DATA_FORMATS,
+  DataFormat,
+  isDataFormat,
+  parseTrainingExamples,
+  serializeTrainingExamples,
+} from './formats.js';
+import { QUERY_LANGUAGES, QueryLanguage, detectQueryLanguage, isQueryLanguage } from './language.js';
+import { isValidDateString } from './filters.js';
+import {
+  LIST_SORT_FIELDS,
+  ListSortField,
+  MAX_LIST_LIMIT,
+  MAX_SEARCH_PATTERN_LENGTH,
+  REGEX_SEARCH_TIMEOUT_MS,
+  SORT_ORDERS,
+  SortOrder,
+  listExamples,
+  searchMatcher,
+  usageCount,
+} from './listing.js';
+import {
+  ExampleVerification,
+  FEEDBACK_OUTCOMES,
+  FeedbackOutcome,
+  SEARCH_MODES,
+  SearchFilters,
+  SearchMode,
+  SimilarExample,
+  TrainingExample,
+} from './types.js';
+import { QuerySyntaxError, formatSyntaxErrors, validateQuerySyntax } from './validation.js';
+import { AccessLevel, startHttpServer } from './http.js';
+import {
+  CLI_USAGE,
+  CliCommand,
+  CommandResult,
+  isCliCommand,
+  parseChoiceOption,
+  parseNumberOption,
+  printResult,
+  resolveDataFormat,
+} from './cli.js';
+import {
+  DEFAULT_PROMPT_EXAMPLES,
+  MAX_PROMPT_EXAMPLES,
+  PROMPTS,
+  buildExplainQueryMessages,
+  buildFixQueryMessages,
+  buildGenerateQueryMessages,
+  isPromptName,
+} from './prompts.js';
+import {
+  QuerySchema,
+  SchemaIssue,
+  checkQueryAgainstSchema,
+  deleteSchema,
+  findSchemaFor,
+  formatSchema,
+  readSchema,
+  readSchemas,
+  validateSchema,
+  writeSchema,
+} from './schema.js';
+import {
+  EXECUTOR_TYPES,
+  ExecutorConfig,
+  ExecutorType,
+  QueryExecutor,
+  QueryResult,
+  createQueryExecutor,
+  readExecutorConfig,
+  validateExecutorConfig,
+  writeExecutorConfig,
+} from './executors.js';
+import {
+  DEFAULT_K_VALUES,
+  EvaluationTestSet,
+  MAX_K,
+  evaluateRetrieval,
+  formatEvaluationReport,
+  leaveOneOutCases,
+  readEvaluationTestSet,
+  readPreviousEvaluation,
+  validateEvaluationCases,
+  validateEvaluationConfigurations,
+  validateKValues,
+  writeEvaluationReport,
+} from './evaluation.js';
+import {
+  ADD_ALTERNATE_QUESTIONS_OUTPUT,
+  CACHE_STATS_OUTPUT,
+  CHECK_INDEX_OUTPUT,
+  CHECK_SCHEMA_OUTPUT,
+  CONFIGURE_EXECUTOR_OUTPUT,
+  CREATE_COLLECTION_OUTPUT,
+  CREATE_VERSION_OUTPUT,
+  DELETE_EXAMPLES_OUTPUT,
+  DELETE_SCHEMA_OUTPUT,
+  DIFF_VERSIONS_OUTPUT,
+  DROP_COLLECTION_OUTPUT,
+  EVALUATE_RETRIEVAL_OUTPUT,
+  EXAMPLE_OUTPUT,
+  EXECUTE_QUERY_OUTPUT,
+  EXPORT_OUTPUT,
+  FILL_QUERY_TEMPLATE_OUTPUT,
+  FIND_DUPLICATES_OUTPUT,
+  FIND_SIMILAR_QUERIES_OUTPUT,
+  IMPORT_OUTPUT,
+  LIST_COLLECTIONS_OUTPUT,
+  LIST_EXAMPLES_OUTPUT,
+  LIST_VERSIONS_OUTPUT,
+  MERGE_DUPLICATES_OUTPUT,
+  RECORD_FEEDBACK_OUTPUT,
+  REGISTER_SCHEMA_OUTPUT,
+  REMOVE_ALTERNATE_QUESTIONS_OUTPUT,
+  REMOVE_DUPLICATES_OUTPUT,
+  ROLLBACK_OUTPUT,
+  USE_COLLECTION_OUTPUT,
+  VALIDATE_OUTPUT,
+  VERIFY_OUTPUT,
+} from './outputSchemas.js';
+import {
+  BindingSource,
+  TemplateValue,
+  coerceTemplateValue,
+  formatTemplateParameters,
+  proposeBindings,
+  renderTemplate,
+} from './templates.js';
+import {
+  CURRENT_VERSION,
+  DEFAULT_KEEP_VERSIONS,
+  VersionManifest,
+  diffIsEmpty,
+  formatDiff,
+  formatVersion,
+  isVersionId,
+} from './versions.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+interface CliArguments {
+  openaiKey?: string;
+  dataDir?: string;
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingDimension?: string;
+  embeddingBaseUrl?: string;
+  sqlDialect?: string;
+  rebuildIndex?: boolean;
+  transport?: string;
+  host?: string;
+  port?: string;
+  authToken?: string;
+  readOnlyToken?: string;
+  evaluate?: string;
+  leaveOneOut?: boolean;
+  collection?: string;
+  keepVersions?: string;
+  // Subcommand options
+  format?: string;
+  output?: string;
+  limit?: string;
+  threshold?: string;
+  mode?: string;
+  domain?: string;
+  language?: string;
+  complexity?: string;
+  search?: string;
+  sort?: string;
+  order?: string;
+  cursor?: string;
+  regex?: boolean;
+  json?: boolean;
+  dryRun?: boolean;
+  help?: boolean;
+  // The subcommand followed by its operands
+  positionals: string[];
+}
+
+const CLI_VALUE_FLAGS: { [flag: string]: keyof CliArguments } = {
+  '--openai-key': 'openaiKey',
+  '--data-dir': 'dataDir',
+  '--embedding-provider': 'embeddingProvider',
+  '--embedding-model': 'embeddingModel',
+  '--embedding-dimension': 'embeddingDimension',
+  '--embedding-base-url': 'embeddingBaseUrl',
+  '--sql-dialect': 'sqlDialect',
+  '--transport': 'transport',
+  '--host': 'host',
+  '--port': 'port',
+  '--auth-token': 'authToken',
+  '--read-only-token': 'readOnlyToken',
+  '--evaluate': 'evaluate',
+  '--collection': 'collection',
+  '--keep-versions': 'keepVersions',
+  '--format': 'format',
+  '--output': 'output',
+  '--limit': 'limit',
+  '--threshold': 'threshold',
+  '--mode': 'mode',
+  '--domain': 'domain',
+  '--language': 'language',
+  '--complexity': 'complexity',
+  '--search': 'search',
+  '--sort': 'sort',
+  '--order': 'order',
+  '--cursor': 'cursor',
+};
+
+const CLI_BOOLEAN_FLAGS: { [flag: string]: keyof CliArguments } = {
+  '--rebuild-index': 'rebuildIndex',
+  '--leave-one-out': 'leaveOneOut',
+  '--regex': 'regex',
+  '--json': 'json',
+  '--dry-run': 'dryRun',
+  '--help': 'help',
+};
+
 // Parse command line arguments
-function parseArguments(): { openaiKey?: string; dataDir?: string } {
+function parseArguments(): CliArguments {
   const args = process.argv.slice(2);
-  const result: { openaiKey?: string; dataDir?: string } = {};
+  const result: CliArguments = { positionals: [] };
   
   for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--openai-key' && i + 1 < args.length) {
-      result.openaiKey = args[i + 1];
-      i++; // Skip the next argument as it's the value
-    } else if (args[i] === '--data-dir' && i + 1 < args.length) {
-      result.dataDir = args[i + 1];
+    const key = CLI_VALUE_FLAGS[args[i]];
+    if (key && i + 1 < args.length) {
+      (result as any)[key] = args[i + 1];
       i++; // Skip the next argument as it's the value
+    } else if (CLI_BOOLEAN_FLAGS[args[i]]) {
+      (result as any)[CLI_BOOLEAN_FLAGS[args[i]]] = true;
+    } else if (!args[i].startsWith('--')) {
+      result.positionals.push(args[i]);
     }
   }
   
   return result;
 }
 
-// Get OpenAI API key from command line arguments or environment variable
+// Resolve the embedding provider settings from command line arguments or environment variables
+function resolveEmbeddingConfig(cliArgs: CliArguments): EmbeddingConfig {
+  const provider = cliArgs.embeddingProvider || process.env.EMBEDDING_PROVIDER || 'openai';
+  if (!isEmbeddingProviderName(provider)) {
+    throw new Error(`Unknown embedding provider "${provider}". Expected one of: ${EMBEDDING_PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const rawDimension = cliArgs.embeddingDimension || process.env.EMBEDDING_DIMENSION;
+  const dimension = rawDimension ? parseInt(rawDimension, 10) : undefined;
+  if (dimension !== undefined && (!Number.isInteger(dimension) || dimension <= 0)) {
+    throw new Error(`Invalid embedding dimension "${rawDimension}"`);
+  }
+
+  return {
+    provider,
+    model: cliArgs.embeddingModel || process.env.EMBEDDING_MODEL,
+    dimension,
+    baseUrl: cliArgs.embeddingBaseUrl || process.env.EMBEDDING_BASE_URL,
+    apiKey: resolveEmbeddingApiKey(cliArgs, provider),
+  };
+}
+
+// API keys are never stored with a collection, so every collection using a provider shares its key
+function resolveEmbeddingApiKey(cliArgs: CliArguments, provider: EmbeddingProviderName): string | undefined {
+  return provider === 'openai'
+    ? cliArgs.openaiKey || process.env.OPENAI_API_KEY
+    : process.env.EMBEDDING_API_KEY;
+}
+
+// Resolve configuration from command line arguments or environment variables
 const cliArgs = parseArguments();
-const OPENAI_API_KEY = cliArgs.openaiKey || process.env.OPENAI_API_KEY;
+const COMMAND = cliArgs.positionals[0] ?? 'serve';
+const EMBEDDING_CONFIG = resolveEmbeddingConfig(cliArgs);
+const SQL_DIALECT = cliArgs.sqlDialect || process.env.SQL_DIALECT || 'postgresql';
+// reindex rebuilds anyway, so it also loads collections whose embedding settings changed
+const REBUILD_INDEX = cliArgs.rebuildIndex || COMMAND === 'reindex' || process.env.REBUILD_INDEX === 'true';
+const KEEP_VERSIONS = parseInt(cliArgs.keepVersions || process.env.KEEP_VERSIONS || String(DEFAULT_KEEP_VERSIONS), 10);
 const DATA_DIR = cliArgs.dataDir || process.env.DATA_DIR || path.join(__dirname, '..', 'data');
-const VECTOR_INDEX_PATH = path.join(DATA_DIR, 'vector_index.bin');
-const TRAINING_DATA_PATH = path.join(DATA_DIR, 'training_data.json');
-const EMBEDDING_DIMENSION = 1536; // OpenAI text-embedding-3-small dimension
-const MAX_ELEMENTS = 10000;
 
-interface TrainingExample {
-  id: string;
-  question: string;
-  query: string;
-  metadata?: {
-    domain?: string;
-    complexity?: string;
-    created_at?: string;
-    tags?: string[];
-  };
+// Files named in tool arguments are relative to the data directory and may not leave it
+function resolveDataPath(file: string): string {
+  const resolved = path.resolve(DATA_DIR, file);
+  const relative = path.relative(path.resolve(DATA_DIR), resolved);
+  if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new McpError(ErrorCode.InvalidParams, `Path must be inside the data directory: ${file}`);
+  }
+  return resolved;
 }
+const TRANSPORT = cliArgs.transport || process.env.MCP_TRANSPORT || 'stdio';
+const HTTP_HOST = cliArgs.host || process.env.MCP_HOST || '127.0.0.1';
+const HTTP_PORT = parseInt(cliArgs.port || process.env.MCP_PORT || '3000', 10);
+const AUTH_TOKEN = cliArgs.authToken || process.env.MCP_AUTH_TOKEN;
+const READ_ONLY_TOKEN = cliArgs.readOnlyToken || process.env.MCP_READ_ONLY_TOKEN;
+if (TRANSPORT !== 'stdio' && TRANSPORT !== 'http') {
+  throw new Error(`Unknown transport "${TRANSPORT}". Expected stdio or http`);
+}
+if (!Number.isInteger(HTTP_PORT) || HTTP_PORT <= 0 || HTTP_PORT > 65535) {
+  throw new Error(`Invalid port "${cliArgs.port || process.env.MCP_PORT}"`);
+}
+if (!Number.isInteger(KEEP_VERSIONS) || KEEP_VERSIONS < 0) {
+  throw new Error(`Invalid number of versions to keep "${cliArgs.keepVersions || process.env.KEEP_VERSIONS}"`);
+}
+// The default collection lives directly in DATA_DIR, as all data did before collections existed;
+// named collections each get a directory under DATA_DIR/collections
+const COLLECTIONS_DIR = path.join(DATA_DIR, 'collections');
+const COLLECTION_CONFIG_FILE = 'collection.json';
+const EMBEDDING_CACHE_FILE = 'embedding_cache.jsonl';
+const DEFAULT_COLLECTION = 'default';
+const COLLECTION_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+const COLLECTION_PROPERTY = {
+  type: 'string',
+  description: 'Collection to use (default: the active collection, see use_collection)',
+};
 
-interface SimilarExample {
-  example: TrainingExample;
-  similarity: number;
+// Tools that change training data or collections, refused for clients using the read-only token
+const WRITE_TOOLS = [
+  'add_training_example',
+  'update_training_example',
+  'delete_training_example',
+  'import_training_examples',
+  'remove_duplicates',
+  'merge_duplicates',
+  'create_collection',
+  'drop_collection',
+  'register_schema',
+  'delete_schema',
+  'configure_executor',
+  'verify_training_data',
+  'record_feedback',
+  'create_version',
+  'rollback',
+  // Saves a report into the collection directory, and its path reads files from disk
+  'evaluate_retrieval',
+  'add_alternate_questions',
+  'remove_alternate_questions',
+];
+
+// Tools that only write when given these arguments
+const WRITE_CALL_CONDITIONS: { [tool: string]: string } = {
+  check_index: ' when repair=true',
+  export_training_examples: ' when path is given',
+};
+
+// Limits for queries run against a collection's database
+const DEFAULT_QUERY_TIMEOUT_MS = 10000;
+const MAX_QUERY_TIMEOUT_MS = 120000;
+const DEFAULT_RESULT_ROWS = 100;
+const MAX_RESULT_ROWS = 1000;
+const MAX_CELL_LENGTH = 200;
+
+// Per-client state: one for the stdio client, one per HTTP session
+interface Session {
+  access: AccessLevel;
+  activeCollection: string;
+  // Resource URIs the client subscribed to
+  subscriptions: Set<string>;
 }
 
+// Stored as collection.json in the collection directory; API keys come from the environment
+interface CollectionConfig {
+  name: string;
+  description?: string;
+  embedding: {
+    provider: EmbeddingProviderName;
+    model?: string;
+    dimension?: number;
+    base_url?: string;
+  };
+  created_at?: string;
+}
 const isValidFindSimilarArgs = (
   args: any
-): args is { question: string; limit?: number; threshold?: number } =>
+): args is {
+  question: string;
+  limit?: number;
+  threshold?: number;
+  language?: QueryLanguage;
+  mode?: SearchMode;
+  include_query_text?: boolean;
+  domain?: string;
+  complexity?: string;
+  tags?: string[];
+  tags_match?: 'any' | 'all';
+  created_after?: string;
+  created_before?: string;
+  feedback_weight?: number;
+  collection?: string;
+} =>
   typeof args === 'object' &&
   args !== null &&
   typeof args.question === 'string' &&
   (args.limit === undefined || typeof args.limit === 'number') &&
-  (args.threshold === undefined || typeof args.threshold === 'number');
+  (args.threshold === undefined || typeof args.threshold === 'number') &&
+  (args.language === undefined || isQueryLanguage(args.language)) &&
+  (args.mode === undefined || SEARCH_MODES.includes(args.mode)) &&
+  (args.include_query_text === undefined || typeof args.include_query_text === 'boolean') &&
+  (args.domain === undefined || typeof args.domain === 'string') &&
+  (args.complexity === undefined || COMPLEXITY_LEVELS.includes(args.complexity)) &&
+  (args.tags === undefined || (Array.isArray(args.tags) && args.tags.every((tag: any) => typeof tag === 'string'))) &&
+  (args.tags_match === undefined || args.tags_match === 'any' || args.tags_match === 'all') &&
+  (args.created_after === undefined || isValidDateString(args.created_after)) &&
+  (args.created_before === undefined || isValidDateString(args.created_before)) &&
+  (args.feedback_weight === undefined || (typeof args.feedback_weight === 'number' && args.feedback_weight >= 0 && args.feedback_weight <= 1)) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidRecordFeedbackArgs = (
+  args: any
+): args is { question: string; example_ids: string[]; outcome: FeedbackOutcome; corrected_query?: string; add_example?: boolean; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.question === 'string' &&
+  Array.isArray(args.example_ids) &&
+  args.example_ids.length > 0 &&
+  args.example_ids.every((id: any) => typeof id === 'string') &&
+  FEEDBACK_OUTCOMES.includes(args.outcome) &&
+  (args.outcome === 'corrected') === (typeof args.corrected_query === 'string') &&
+  (args.add_example === undefined || typeof args.add_example === 'boolean') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidEvaluateArgs = (
+  args: any
+): args is { cases?: any[]; path?: string; leave_one_out?: boolean; configurations?: any[]; k_values?: number[]; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  [args.cases !== undefined, args.path !== undefined, args.leave_one_out === true].filter(Boolean).length === 1 &&
+  (args.cases === undefined || Array.isArray(args.cases)) &&
+  (args.path === undefined || typeof args.path === 'string') &&
+  (args.leave_one_out === undefined || typeof args.leave_one_out === 'boolean') &&
+  (args.configurations === undefined || Array.isArray(args.configurations)) &&
+  (args.k_values === undefined || Array.isArray(args.k_values)) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidUpdateExampleArgs = (
+  args: any
+): args is { id: string; question?: string; query?: string; language?: QueryLanguage; metadata?: any; parameterize?: boolean; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.id === 'string' &&
+  (args.question === undefined || typeof args.question === 'string') &&
+  (args.query === undefined || typeof args.query === 'string') &&
+  (args.language === undefined || isQueryLanguage(args.language)) &&
+  (args.metadata === undefined || (typeof args.metadata === 'object' && args.metadata !== null)) &&
+  (args.parameterize === undefined || typeof args.parameterize === 'boolean') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidDeleteExampleArgs = (
+  args: any
+): args is { id?: string; ids?: string[]; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  (args.id !== undefined || args.ids !== undefined) &&
+  (args.id === undefined || typeof args.id === 'string') &&
+  (args.ids === undefined || (Array.isArray(args.ids) && args.ids.every((id: any) => typeof id === 'string'))) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidListExamplesArgs = (
+  args: any
+): args is {
+  limit?: number;
+  cursor?: string;
+  search?: string;
+  regex?: boolean;
+  domain?: string;
+  language?: QueryLanguage;
+  complexity?: string;
+  tags?: string[];
+  tags_match?: 'any' | 'all';
+  created_after?: string;
+  created_before?: string;
+  sort?: ListSortField;
+  order?: SortOrder;
+  collection?: string;
+} =>
+  (args === undefined || (typeof args === 'object' && args !== null)) &&
+  (args?.limit === undefined || (Number.isInteger(args.limit) && args.limit >= 1 && args.limit <= MAX_LIST_LIMIT)) &&
+  (args?.cursor === undefined || typeof args.cursor === 'string') &&
+  (args?.search === undefined || typeof args.search === 'string') &&
+  (args?.regex === undefined || typeof args.regex === 'boolean') &&
+  (args?.domain === undefined || typeof args.domain === 'string') &&
+  (args?.language === undefined || isQueryLanguage(args.language)) &&
+  (args?.complexity === undefined || COMPLEXITY_LEVELS.includes(args.complexity)) &&
+  (args?.tags === undefined || (Array.isArray(args.tags) && args.tags.every((tag: any) => typeof tag === 'string'))) &&
+  (args?.tags_match === undefined || args.tags_match === 'any' || args.tags_match === 'all') &&
+  (args?.created_after === undefined || isValidDateString(args.created_after)) &&
+  (args?.created_before === undefined || isValidDateString(args.created_before)) &&
+  (args?.sort === undefined || LIST_SORT_FIELDS.includes(args.sort)) &&
+  (args?.order === undefined || SORT_ORDERS.includes(args.order)) &&
+  (args?.collection === undefined || typeof args.collection === 'string');
+
+const isValidImportArgs = (
+  args: any
+): args is { format: DataFormat; content?: string; path?: string; dry_run?: boolean; batch_size?: number; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  isDataFormat(args.format) &&
+  (typeof args.content === 'string') !== (typeof args.path === 'string') &&
+  (args.dry_run === undefined || typeof args.dry_run === 'boolean') &&
+  (args.batch_size === undefined || (Number.isInteger(args.batch_size) && args.batch_size > 0)) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidExportArgs = (
+  args: any
+): args is { format: DataFormat; path?: string; domain?: string; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  isDataFormat(args.format) &&
+  (args.path === undefined || typeof args.path === 'string') &&
+  (args.domain === undefined || typeof args.domain === 'string') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidNearDuplicateArgs = (
+  args: any
+): args is { threshold?: number; query_weight?: number; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  (args.threshold === undefined || (typeof args.threshold === 'number' && args.threshold >= 0 && args.threshold <= 1)) &&
+  (args.query_weight === undefined || (typeof args.query_weight === 'number' && args.query_weight >= 0 && args.query_weight <= 1)) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidMergeArgs = (
+  args: any
+): args is { keep_id?: string; merge_ids?: string[]; threshold?: number; query_weight?: number; confirm?: boolean; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  (args.keep_id === undefined) === (args.merge_ids === undefined) &&
+  (args.keep_id === undefined || typeof args.keep_id === 'string') &&
+  (args.merge_ids === undefined ||
+    (Array.isArray(args.merge_ids) && args.merge_ids.length > 0 && args.merge_ids.every((id: any) => typeof id === 'string'))) &&
+  (args.threshold === undefined || (typeof args.threshold === 'number' && args.threshold >= 0 && args.threshold <= 1)) &&
+  (args.query_weight === undefined || (typeof args.query_weight === 'number' && args.query_weight >= 0 && args.query_weight <= 1)) &&
+  (args.confirm === undefined || typeof args.confirm === 'boolean') &&
+  (args.collection === undefined || typeof args.collection === 'string');
 
 const isValidAddExampleArgs = (
   args: any
-): args is { question: string; query: string; metadata?: any } =>
+): args is {
+  question: string;
+  query: string;
+  language?: QueryLanguage;
+  metadata?: any;
+  parameterize?: boolean;
+  alternate_questions?: string[];
+  collection?: string;
+} =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.question === 'string' &&
+  typeof args.query === 'string' &&
+  (args.language === undefined || isQueryLanguage(args.language)) &&
+  (args.parameterize === undefined || typeof args.parameterize === 'boolean') &&
+  (args.alternate_questions === undefined ||
+    (Array.isArray(args.alternate_questions) && args.alternate_questions.every((question: any) => typeof question === 'string'))) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidCreateCollectionArgs = (
+  args: any
+): args is {
+  name: string;
+  description?: string;
+  embedding_provider?: EmbeddingProviderName;
+  embedding_model?: string;
+  embedding_dimension?: number;
+  embedding_base_url?: string;
+} =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.name === 'string' &&
+  (args.description === undefined || typeof args.description === 'string') &&
+  (args.embedding_provider === undefined || isEmbeddingProviderName(args.embedding_provider)) &&
+  (args.embedding_model === undefined || typeof args.embedding_model === 'string') &&
+  (args.embedding_dimension === undefined || (Number.isInteger(args.embedding_dimension) && args.embedding_dimension > 0)) &&
+  (args.embedding_base_url === undefined || typeof args.embedding_base_url === 'string');
+
+const isValidCollectionNameArgs = (
+  args: any
+): args is { name: string; confirm?: boolean } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.name === 'string' &&
+  (args.confirm === undefined || typeof args.confirm === 'boolean');
+
+const isValidRegisterSchemaArgs = (
+  args: any
+): args is Omit<QuerySchema, 'updated_at'> & { collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.name === 'string' &&
+  (args.description === undefined || typeof args.description === 'string') &&
+  (args.domain === undefined || typeof args.domain === 'string') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidDeleteSchemaArgs = (
+  args: any
+): args is { name: string; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.name === 'string' &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidConfigureExecutorArgs = (
+  args: any
+): args is Partial<Omit<ExecutorConfig, 'type'>> & { type: ExecutorType | 'none'; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  (args.type === 'none' || EXECUTOR_TYPES.includes(args.type)) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidQueryLimits = (args: any) =>
+  (args.max_rows === undefined || (Number.isInteger(args.max_rows) && args.max_rows >= 1 && args.max_rows <= MAX_RESULT_ROWS)) &&
+  (args.timeout_ms === undefined || (Number.isInteger(args.timeout_ms) && args.timeout_ms >= 1 && args.timeout_ms <= MAX_QUERY_TIMEOUT_MS));
+
+const isValidExecuteQueryArgs = (
+  args: any
+): args is { query?: string; id?: string; language?: QueryLanguage; max_rows?: number; timeout_ms?: number; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  (typeof args.query === 'string') !== (typeof args.id === 'string') &&
+  (args.language === undefined || isQueryLanguage(args.language)) &&
+  isValidQueryLimits(args) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidVerifyArgs = (
+  args: any
+): args is { ids?: string[]; require_rows?: boolean; timeout_ms?: number; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  (args.ids === undefined || (Array.isArray(args.ids) && args.ids.every((id: any) => typeof id === 'string'))) &&
+  (args.require_rows === undefined || typeof args.require_rows === 'boolean') &&
+  isValidQueryLimits(args) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidCheckSchemaArgs = (
+  args: any
+): args is { query?: string; id?: string; language?: QueryLanguage; schema?: string; domain?: string; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  !(args.query !== undefined && args.id !== undefined) &&
+  (args.query === undefined || typeof args.query === 'string') &&
+  (args.id === undefined || typeof args.id === 'string') &&
+  (args.language === undefined || isQueryLanguage(args.language)) &&
+  (args.schema === undefined || typeof args.schema === 'string') &&
+  (args.domain === undefined || typeof args.domain === 'string') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isVersionReference = (value: any) => typeof value === 'string' && (value === CURRENT_VERSION || isVersionId(value));
+
+const isValidCreateVersionArgs = (
+  args: any
+): args is { label?: string; collection?: string } =>
+  (args === undefined ||
+    (typeof args === 'object' &&
+      args !== null &&
+      (args.label === undefined || typeof args.label === 'string') &&
+      (args.collection === undefined || typeof args.collection === 'string')));
+
+const isValidDiffVersionsArgs = (
+  args: any
+): args is { from: string; to?: string; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  isVersionReference(args.from) &&
+  (args.to === undefined || isVersionReference(args.to)) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidRollbackArgs = (
+  args: any
+): args is { version: string; confirm?: boolean; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.version === 'string' &&
+  isVersionId(args.version) &&
+  (args.confirm === undefined || typeof args.confirm === 'boolean') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidFillTemplateArgs = (
+  args: any
+): args is { id: string; question: string; values?: { [name: string]: any }; collection?: string } =>
   typeof args === 'object' &&
   args !== null &&
+  typeof args.id === 'string' &&
   typeof args.question === 'string' &&
-  typeof args.query === 'string';
+  (args.values === undefined || (typeof args.values === 'object' && args.values !== null && !Array.isArray(args.values))) &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+const isValidAlternateQuestionsArgs = (
+  args: any
+): args is { id: string; questions: string[]; collection?: string } =>
+  typeof args === 'object' &&
+  args !== null &&
+  typeof args.id === 'string' &&
+  Array.isArray(args.questions) &&
+  args.questions.length > 0 &&
+  args.questions.every((question: any) => typeof question === 'string' && question.trim() !== '') &&
+  (args.collection === undefined || typeof args.collection === 'string');
+
+// The template found when adding or updating an example, or why there is none when one was asked for
+const describeTemplate = (example: TrainingExample, parameterize?: boolean) =>
+  example.template
+    ? `\nTemplate: ${example.template.query}\nParameters: ${formatTemplateParameters(example.template)}`
+    : parameterize ? '\nThe query has no literals to turn into template parameters' : '';
+
+const BINDING_SOURCES: { [source in BindingSource]: string } = {
+  argument: 'given',
+  question: 'from the question',
+  example: 'kept from the example',
+};
+
+// Version manifests without the internal change log position
+const versionOutput = ({ log_seq, ...version }: VersionManifest) => version;
+
+// Examples in structuredContent are flat: the stored example followed by its scores
+const similarExampleOutput = (hit: SimilarExample) => ({
+  ...hit.example,
+  similarity: hit.similarity,
+  ...(hit.vectorSimilarity !== undefined ? { vector_similarity: hit.vectorSimilarity } : {}),
+  ...(hit.lexicalScore !== undefined ? { lexical_score: hit.lexicalScore } : {}),
+  ...(hit.matchedQuestion !== undefined ? { matched_question: hit.matchedQuestion } : {}),
+  ...(hit.feedbackScore !== undefined ? { feedback_score: hit.feedbackScore } : {}),
+});
+
+const indexReportOutput = (report: IndexCheckReport) => ({
+  example_count: report.exampleCount,
+  indexed_count: report.indexedCount,
+  phrasing_count: report.phrasingCount,
+  capacity: report.capacity,
+  index_dimension: report.indexDimension,
+  expected_dimension: report.expectedDimension,
+  orphan_labels: report.orphanLabels,
+  missing_vectors: report.missingVectors,
+});
+
+// Resources of a collection live under query-assistant://collections/{name}/; those of the default
+// collection are also addressed directly under query-assistant://, as before collections existed
+type CollectionResource =
+  | { collection: string; kind: 'training-data' | 'stats' }
+  | { collection: string; kind: 'example'; id: string }
+  | { collection: string; kind: 'domain'; domain: string };
+
+const COLLECTION_RESOURCE_PATTERN = /^query-assistant:\/\/(?:collections\/([^/]+)\/)?(?:(training-data|stats)|examples\/([^/]+)|domains\/([^/]+))$/;
+const SCHEMA_RESOURCE_PATTERN = /^query-assistant:\/\/schema\/([^/]+)$/;
+
+function parseCollectionResource(uri: string): CollectionResource | undefined {
+  const match = uri.match(COLLECTION_RESOURCE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const [, collection = DEFAULT_COLLECTION, kind, id, domain] = match;
+  try {
+    if (kind === 'training-data' || kind === 'stats') {
+      return { collection, kind };
+    }
+    return id !== undefined
+      ? { collection, kind: 'example', id: decodeURIComponent(id) }
+      : { collection, kind: 'domain', domain: decodeURIComponent(domain) };
+  } catch {
+    // Malformed percent-encoding
+    return undefined;
+  }
+}
+
+// Every URI of a resource path such as "stats" or "examples/{id}" in a collection
+const collectionResourceUris = (collection: string, resourcePath: string) => [
+  ...(collection === DEFAULT_COLLECTION ? [`query-assistant://${resourcePath}`] : []),
+  `query-assistant://collections/${collection}/${resourcePath}`,
+];
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'query-assistant://examples/{id}',
+    name: 'Training Example',
+    mimeType: 'application/json',
+    description: 'A training example of the default collection, by ID',
+  },
+  {
+    uriTemplate: 'query-assistant://domains/{domain}',
+    name: 'Domain Examples',
+    mimeType: 'application/json',
+    description: 'The training examples of one domain in the default collection (URL-encode the domain name)',
+  },
+  {
+    uriTemplate: 'query-assistant://collections/{collection}/examples/{id}',
+    name: 'Training Example in a Collection',
+    mimeType: 'application/json',
+    description: 'A training example of a collection, by ID',
+  },
+  {
+    uriTemplate: 'query-assistant://collections/{collection}/domains/{domain}',
+    name: 'Domain Examples in a Collection',
+    mimeType: 'application/json',
+    description: 'The training examples of one domain in a collection (URL-encode the domain name)',
+  },
+];
 
 class queryAssistant {
-  private server: Server;
-  private openai: OpenAI | null = null;
-  private vectorIndex: HierarchicalNSWType | null = null;
-  private trainingData: TrainingExample[] = [];
-  private idToIndex: Map<string, number> = new Map();
+  // Connected servers with the state of their client, which includes its resource subscriptions
+  private servers: Map<Server, Session> = new Map();
+  // Collections are loaded on first use; the promise is stored so concurrent calls share one load
+  private collections: Map<string, Promise<QueryCollection>> = new Map();
+  // Database connections per collection, with the configuration they were opened with
+  private executors: Map<string, { config: string; executor: QueryExecutor }> = new Map();
 
   constructor() {
-    this.server = new Server(
+    const shutdown = async () => {
+      await this.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  }
+
+  private async close() {
+    for (const server of this.servers.keys()) {
+      await server.close();
+    }
+    // Finish pending writes and release the collection locks
+    for (const collection of this.collections.values()) {
+      await collection.then(loaded => loaded.close(), () => {});
+    }
+    for (const { executor } of this.executors.values()) {
+      await executor.close().catch(() => {});
+    }
+  }
+
+  // One MCP server per client; they all share the loaded collections
+  private createServer(access: AccessLevel): Server {
+    const server = new Server(
       {
         name: 'query-assistant',
         version: '0.1.0',
       },
       {
         capabilities: {
-          resources: {},
+          prompts: {},
+          resources: { subscribe: true, listChanged: true },
           tools: {},
         },
       }
     );
+    const session: Session = { access, activeCollection: DEFAULT_COLLECTION, subscriptions: new Set() };
 
-    // Initialize OpenAI client if API key is provided
-    if (OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: OPENAI_API_KEY,
-      });
-    }
+    this.setupToolHandlers(server, session);
+    this.setupResourceHandlers(server, session);
+    this.setupPromptHandlers(server, session);
 
-    this.setupToolHandlers();
-    this.setupResourceHandlers();
-    
     // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    server.onerror = (error) => console.error('[MCP Error]', error);
+    this.servers.set(server, session);
+    server.onclose = () => this.servers.delete(server);
+    return server;
+  }
+
+  private collectionDir(name: string): string {
+    return name === DEFAULT_COLLECTION ? DATA_DIR : path.join(COLLECTIONS_DIR, name);
   }
 
-  private async initializeVectorStore() {
-    // Ensure data directory exists
-    await fs.ensureDir(DATA_DIR);
+  private async collectionExists(name: string): Promise<boolean> {
+    return name === DEFAULT_COLLECTION ||
+      (COLLECTION_NAME_PATTERN.test(name) && await fs.pathExists(path.join(this.collectionDir(name), COLLECTION_CONFIG_FILE)));
+  }
 
-    // Load existing training data
-    if (await fs.pathExists(TRAINING_DATA_PATH)) {
-      try {
-        const data = await fs.readJson(TRAINING_DATA_PATH);
-        this.trainingData = Array.isArray(data) ? data : [];
-      } catch (error) {
-        console.error('Error loading training data:', error);
-        this.trainingData = [];
+  private async listCollectionNames(): Promise<string[]> {
+    const names = (await fs.pathExists(COLLECTIONS_DIR)) ? await fs.readdir(COLLECTIONS_DIR) : [];
+    const existing: string[] = [];
+    for (const name of names.sort()) {
+      if (name !== DEFAULT_COLLECTION && await this.collectionExists(name)) {
+        existing.push(name);
       }
     }
+    return [DEFAULT_COLLECTION, ...existing];
+  }
+
+  // The default collection takes its embedding settings from the command line or environment
+  private async readCollectionConfig(name: string): Promise<CollectionConfig> {
+    if (name === DEFAULT_COLLECTION) {
+      return {
+        name,
+        embedding: {
+          provider: EMBEDDING_CONFIG.provider,
+          model: EMBEDDING_CONFIG.model,
+          dimension: EMBEDDING_CONFIG.dimension,
+          base_url: EMBEDDING_CONFIG.baseUrl,
+        },
+      };
+    }
+    return fs.readJson(path.join(this.collectionDir(name), COLLECTION_CONFIG_FILE));
+  }
+
+  private async loadCollection(name: string): Promise<QueryCollection> {
+    const config = await this.readCollectionConfig(name);
+    const embeddingConfig: EmbeddingConfig = {
+      provider: config.embedding.provider,
+      model: config.embedding.model,
+      dimension: config.embedding.dimension,
+      baseUrl: config.embedding.base_url,
+      apiKey: resolveEmbeddingApiKey(cliArgs, config.embedding.provider),
+    };
+    const directory = this.collectionDir(name);
+    const embeddings = new CachedEmbeddingProvider(
+      createEmbeddingProvider(embeddingConfig),
+      path.join(directory, EMBEDDING_CACHE_FILE)
+    );
 
-    // Initialize vector index
-    this.vectorIndex = new HierarchicalNSW('cosine', EMBEDDING_DIMENSION);
-    this.vectorIndex.initIndex(MAX_ELEMENTS);
+    const collection = new QueryCollection(name, directory, embeddings, {
+      sqlDialect: SQL_DIALECT,
+      rebuildIndex: REBUILD_INDEX,
+      keepVersions: KEEP_VERSIONS,
+    });
+    await collection.initialize();
+    collection.onChange(events => this.notifyCollectionChange(name, events));
 
-    // Load existing vector index if it exists
-    if (await fs.pathExists(VECTOR_INDEX_PATH) && this.trainingData.length > 0) {
+    // Add some default examples if no training data exists. They need embeddings, so without a working
+    // embedding provider they wait for a later start.
+    if (name === DEFAULT_COLLECTION && collection.trainingData.length === 0 && !collection.readOnly) {
       try {
-        this.vectorIndex.readIndex(VECTOR_INDEX_PATH);
-        // Rebuild ID to index mapping
-        this.trainingData.forEach((example, index) => {
-          this.idToIndex.set(example.id, index);
-        });
-        console.log(`Loaded ${this.trainingData.length} training examples`);
+        await this.addDefaultExamples(collection);
       } catch (error) {
-        console.error('Error loading vector index:', error);
-        // Reinitialize if loading fails
-        this.vectorIndex = new HierarchicalNSW('cosine', EMBEDDING_DIMENSION);
-        this.vectorIndex.initIndex(MAX_ELEMENTS);
+        console.error(`Skipping the default examples: ${error instanceof Error ? error.message : error}`);
       }
     }
 
-    // Add some default examples if no training data exists
-    if (this.trainingData.length === 0) {
-      await this.addDefaultExamples();
+    return collection;
+  }
+
+  private async getCollection(collectionName: string): Promise<QueryCollection> {
+    let collection = this.collections.get(collectionName);
+    if (!collection) {
+      if (!(await this.collectionExists(collectionName))) {
+        throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${collectionName}`);
+      }
+      collection = this.loadCollection(collectionName);
+      this.collections.set(collectionName, collection);
+      // Forget a failed load so the next call can retry it
+      collection.catch(() => this.collections.delete(collectionName));
     }
+
+    // Pick up changes written by the process holding the lock of a read-only collection
+    const loaded = await collection;
+    await loaded.sync();
+    return loaded;
   }
 
-  private async addDefaultExamples() {
+  private async addDefaultExamples(collection: QueryCollection) {
     const defaultExamples: Omit<TrainingExample, 'id'>[] = [
       {
         question: "Give me the list of CDEs in the lineage",
@@ -174,121 +988,20 @@ class queryAssistant {
     ];
 
     for (const example of defaultExamples) {
-      await this.addTrainingExample(example.question, example.query, example.metadata);
-    }
-  }
-
-  private async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'OpenAI API key not configured. Please provide it via --openai-key argument or set OPENAI_API_KEY environment variable.'
-      );
-    }
-
-    try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-      });
-
-      return response.data[0].embedding;
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
-  }
-
-  private async addTrainingExample(question: string, query: string, metadata?: any): Promise<string> {
-    // Check for duplicates based on question and query
-    const existingExample = this.trainingData.find(
-      example => 
-        example.question.toLowerCase().trim() === question.toLowerCase().trim() &&
-        example.query.toLowerCase().trim() === query.toLowerCase().trim()
-    );
-
-    if (existingExample) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Duplicate training example found. Existing example ID: ${existingExample.id}`
-      );
-    }
-
-    const id = `example_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const example: TrainingExample = {
-      id,
-      question,
-      query: query,
-      metadata: {
-        ...metadata,
-        created_at: new Date().toISOString(),
-      },
-    };
-
-    // Generate embedding
-    const embedding = await this.generateEmbedding(question);
-
-    // Add to vector index
-    const index = this.trainingData.length;
-    this.vectorIndex!.addPoint(embedding, index);
-    this.idToIndex.set(id, index);
-
-    // Add to training data
-    this.trainingData.push(example);
-
-    // Save data
-    await this.saveData();
-
-    return id;
-  }
-
-  private async saveData() {
-    // Save training data
-    await fs.writeJson(TRAINING_DATA_PATH, this.trainingData, { spaces: 2 });
-
-    // Save vector index
-    if (this.vectorIndex && this.trainingData.length > 0) {
-      this.vectorIndex.writeIndex(VECTOR_INDEX_PATH);
-    }
-  }
-
-  private async findSimilarExamples(question: string, limit: number = 3, threshold: number = 0.7): Promise<SimilarExample[]> {
-    if (!this.vectorIndex || this.trainingData.length === 0) {
-      return [];
-    }
-
-    // Generate embedding for the question
-    const questionEmbedding = await this.generateEmbedding(question);
-
-    // Search for similar examples
-    const searchResults = this.vectorIndex.searchKnn(questionEmbedding, Math.min(limit * 2, this.trainingData.length));
-
-    const similarExamples: SimilarExample[] = [];
-    for (let i = 0; i < searchResults.distances.length; i++) {
-      const similarity = 1 - searchResults.distances[i]; // Convert distance to similarity
-      const label = searchResults.neighbors[i];
-      if (similarity >= threshold && label < this.trainingData.length) {
-        similarExamples.push({
-          example: this.trainingData[label],
-          similarity,
-        });
-      }
+      await collection.addTrainingExample(example.question, example.query, example.metadata);
     }
-
-    return similarExamples.slice(0, limit);
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+  private setupToolHandlers(server: Server, session: Session) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.filterTools(session, [
         {
           name: 'find_similar_queries',
           description: 'Find similar query examples based on a natural language question',
           inputSchema: {
             type: 'object',
             properties: {
+              collection: COLLECTION_PROPERTY,
               question: {
                 type: 'string',
                 description: 'The natural language question to find similar examples for',
@@ -302,14 +1015,66 @@ class queryAssistant {
               },
               threshold: {
                 type: 'number',
-                description: 'Minimum similarity threshold (0-1, default: 0.7)',
+                description: 'Minimum vector similarity for vector and hybrid modes (0-1, default: 0.7). In hybrid mode it only filters the vector ranking: examples found by keyword search alone are returned whatever their vector similarity',
                 minimum: 0,
                 maximum: 1,
                 default: 0.7,
               },
+              language: {
+                type: 'string',
+                enum: QUERY_LANGUAGES,
+                description: 'Only return examples written in this query language',
+              },
+              mode: {
+                type: 'string',
+                enum: SEARCH_MODES,
+                description: 'vector (embedding similarity, default), lexical (BM25, works without an embedding provider) or hybrid (rank fusion of both)',
+                default: 'vector',
+              },
+              include_query_text: {
+                type: 'boolean',
+                description: 'Also match the question against the query text in lexical and hybrid modes (default: false)',
+                default: false,
+              },
+              feedback_weight: {
+                type: 'number',
+                description: `How much recorded feedback boosts or demotes examples: 0 ignores it, 1 scales scores by up to +/-100% (default: ${DEFAULT_FEEDBACK_WEIGHT})`,
+                minimum: 0,
+                maximum: 1,
+                default: DEFAULT_FEEDBACK_WEIGHT,
+              },
+              domain: {
+                type: 'string',
+                description: 'Only return examples from this domain',
+              },
+              complexity: {
+                type: 'string',
+                enum: COMPLEXITY_LEVELS,
+                description: 'Only return examples of this complexity',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only return examples carrying these tags',
+              },
+              tags_match: {
+                type: 'string',
+                enum: ['any', 'all'],
+                description: 'Whether examples need any (default) or all of the given tags',
+                default: 'any',
+              },
+              created_after: {
+                type: 'string',
+                description: 'Only return examples created at or after this ISO 8601 date',
+              },
+              created_before: {
+                type: 'string',
+                description: 'Only return examples created at or before this ISO 8601 date',
+              },
             },
             required: ['question'],
           },
+          outputSchema: FIND_SIMILAR_QUERIES_OUTPUT,
         },
         {
           name: 'add_training_example',
@@ -317,6 +1082,7 @@ class queryAssistant {
           inputSchema: {
             type: 'object',
             properties: {
+              collection: COLLECTION_PROPERTY,
               question: {
                 type: 'string',
                 description: 'The natural language question',
@@ -325,6 +1091,11 @@ class queryAssistant {
                 type: 'string',
                 description: 'The corresponding query',
               },
+              language: {
+                type: 'string',
+                enum: QUERY_LANGUAGES,
+                description: 'Query language (detected from the query when omitted)',
+              },
               metadata: {
                 type: 'object',
                 description: 'Optional metadata (domain, complexity, tags, etc.)',
@@ -334,37 +1105,326 @@ class queryAssistant {
                   tags: { type: 'array', items: { type: 'string' } },
                 },
               },
+              parameterize: {
+                type: 'boolean',
+                description: 'Also store the query as a template whose literals (names, dates, numbers) are typed slots, for fill_query_template (default: false)',
+                default: false,
+              },
+              alternate_questions: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Other phrasings of the question, each embedded and matched on its own (see add_alternate_questions)',
+              },
             },
             required: ['question', 'query'],
           },
+          outputSchema: EXAMPLE_OUTPUT,
         },
         {
-          name: 'list_training_examples',
-          description: 'List all training examples in the dataset',
+          name: 'update_training_example',
+          description: 'Update the question, query or metadata of an existing training example',
           inputSchema: {
             type: 'object',
             properties: {
-              limit: {
+              collection: COLLECTION_PROPERTY,
+              id: {
+                type: 'string',
+                description: 'ID of the training example to update',
+              },
+              question: {
+                type: 'string',
+                description: 'New natural language question (the example is re-embedded)',
+              },
+              query: {
+                type: 'string',
+                description: 'New query',
+              },
+              language: {
+                type: 'string',
+                enum: QUERY_LANGUAGES,
+                description: 'New query language (re-detected from a changed query when omitted)',
+              },
+              metadata: {
+                type: 'object',
+                description: 'Metadata fields to change; fields not given are kept',
+                properties: {
+                  domain: { type: 'string' },
+                  complexity: { type: 'string', enum: ['simple', 'medium', 'complex'] },
+                  tags: { type: 'array', items: { type: 'string' } },
+                },
+              },
+              parameterize: {
+                type: 'boolean',
+                description: 'true to (re)build the query template from the query, false to drop it. A template is rebuilt anyway when the query changes',
+              },
+            },
+            required: ['id'],
+          },
+          outputSchema: EXAMPLE_OUTPUT,
+        },
+        {
+          name: 'delete_training_example',
+          description: 'Delete one or more training examples by ID',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              id: {
+                type: 'string',
+                description: 'ID of the training example to delete',
+              },
+              ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'IDs of the training examples to delete',
+              },
+            },
+          },
+          outputSchema: DELETE_EXAMPLES_OUTPUT,
+        },
+        {
+          name: 'list_training_examples',
+          description: 'List all training examples in the dataset',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              limit: {
                 type: 'number',
                 description: 'Maximum number of examples to return (default: 10)',
                 minimum: 1,
-                maximum: 100,
+                maximum: MAX_LIST_LIMIT,
                 default: 10,
               },
+              cursor: {
+                type: 'string',
+                description: 'next_cursor of the previous page, to continue the listing with the same sort and order',
+              },
+              search: {
+                type: 'string',
+                description: 'Only list examples whose question, alternate questions or query contain this text (case-insensitive)',
+              },
+              regex: {
+                type: 'boolean',
+                description: `Treat search as a case-insensitive regular expression of at most ${MAX_SEARCH_PATTERN_LENGTH} characters (default: false). A pattern running longer than ${REGEX_SEARCH_TIMEOUT_MS} ms is stopped`,
+                default: false,
+              },
               domain: {
                 type: 'string',
                 description: 'Filter by domain',
               },
+              language: {
+                type: 'string',
+                enum: QUERY_LANGUAGES,
+                description: 'Filter by query language',
+              },
+              complexity: {
+                type: 'string',
+                enum: COMPLEXITY_LEVELS,
+                description: 'Filter by complexity',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only list examples carrying these tags',
+              },
+              tags_match: {
+                type: 'string',
+                enum: ['any', 'all'],
+                description: 'Whether examples need any (default) or all of the given tags',
+                default: 'any',
+              },
+              created_after: {
+                type: 'string',
+                description: 'Only list examples created at or after this ISO 8601 date',
+              },
+              created_before: {
+                type: 'string',
+                description: 'Only list examples created at or before this ISO 8601 date',
+              },
+              sort: {
+                type: 'string',
+                enum: LIST_SORT_FIELDS,
+                description: 'Sort by creation date (default), domain, or usage: the number of record_feedback reports on the example',
+                default: 'created_at',
+              },
+              order: {
+                type: 'string',
+                enum: SORT_ORDERS,
+                description: 'Sort order (default: desc for usage, asc otherwise)',
+              },
+            },
+          },
+          outputSchema: LIST_EXAMPLES_OUTPUT,
+        },
+        {
+          name: 'import_training_examples',
+          description: 'Bulk import question-query pairs from JSONL, CSV or YAML, with a per-row report',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              format: {
+                type: 'string',
+                enum: DATA_FORMATS,
+                description: 'Format of the data to import',
+              },
+              content: {
+                type: 'string',
+                description: 'The data to import (provide either content or path)',
+              },
+              path: {
+                type: 'string',
+                description: 'File to import, relative to the data directory (provide either content or path)',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Validate and report without writing anything',
+                default: false,
+              },
+              batch_size: {
+                type: 'number',
+                description: `Number of questions embedded per request (default: ${EMBEDDING_BATCH_SIZE})`,
+                minimum: 1,
+                default: EMBEDDING_BATCH_SIZE,
+              },
+            },
+            required: ['format'],
+          },
+          outputSchema: IMPORT_OUTPUT,
+        },
+        {
+          name: 'export_training_examples',
+          description: 'Export training examples as JSONL, CSV or YAML',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              format: {
+                type: 'string',
+                enum: DATA_FORMATS,
+                description: 'Export format',
+              },
+              path: {
+                type: 'string',
+                description: 'File to write, relative to the data directory. If omitted, the data is returned inline',
+              },
+              domain: {
+                type: 'string',
+                description: 'Only export examples from this domain',
+              },
+            },
+            required: ['format'],
+          },
+          outputSchema: EXPORT_OUTPUT,
+        },
+        {
+          name: 'validate_training_data',
+          description: 'Parse every stored query (Cypher, SPARQL, SQL) and list the examples that fail to parse',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+            },
+          },
+          outputSchema: VALIDATE_OUTPUT,
+        },
+        {
+          name: 'check_index',
+          description: 'Check that the vector index matches the training data (element count, orphaned vectors, examples without vectors, dimension) and optionally repair it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              repair: {
+                type: 'boolean',
+                description: 'Fix the problems found, rebuilding only what is broken',
+                default: false,
+              },
             },
           },
+          outputSchema: CHECK_INDEX_OUTPUT,
+        },
+        {
+          name: 'cache_stats',
+          description: 'Show embedding cache statistics (hits, misses and cache size)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+            },
+          },
+          outputSchema: CACHE_STATS_OUTPUT,
         },
         {
           name: 'find_duplicates',
-          description: 'Find duplicate training examples based on question and query',
+          description: 'Find duplicate training examples: exact matches of question and query, or near-duplicates by question embedding and normalized query similarity',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              mode: {
+                type: 'string',
+                enum: ['exact', 'near'],
+                description: 'exact (default): identical question and query after trimming and lowercasing; near: paraphrased questions or queries that differ only in whitespace or variable names',
+                default: 'exact',
+              },
+              threshold: {
+                type: 'number',
+                description: `Minimum combined similarity for near-duplicates (0-1, default: ${NEAR_DUPLICATE_THRESHOLD})`,
+                minimum: 0,
+                maximum: 1,
+                default: NEAR_DUPLICATE_THRESHOLD,
+              },
+              query_weight: {
+                type: 'number',
+                description: `Weight of normalized query similarity versus question embedding similarity (0-1, default: ${NEAR_DUPLICATE_QUERY_WEIGHT})`,
+                minimum: 0,
+                maximum: 1,
+                default: NEAR_DUPLICATE_QUERY_WEIGHT,
+              },
+            },
+          },
+          outputSchema: FIND_DUPLICATES_OUTPUT,
+        },
+        {
+          name: 'merge_duplicates',
+          description: 'Merge near-duplicate examples into one, keeping the merged questions as alternate questions of the survivor',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              keep_id: {
+                type: 'string',
+                description: 'ID of the example to keep (use together with merge_ids to merge a specific cluster)',
+              },
+              merge_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'IDs of the examples to merge into keep_id',
+              },
+              threshold: {
+                type: 'number',
+                description: `Without keep_id: minimum combined similarity of the clusters to merge (0-1, default: ${NEAR_DUPLICATE_THRESHOLD})`,
+                minimum: 0,
+                maximum: 1,
+                default: NEAR_DUPLICATE_THRESHOLD,
+              },
+              query_weight: {
+                type: 'number',
+                description: `Without keep_id: weight of normalized query similarity (0-1, default: ${NEAR_DUPLICATE_QUERY_WEIGHT})`,
+                minimum: 0,
+                maximum: 1,
+                default: NEAR_DUPLICATE_QUERY_WEIGHT,
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Without keep_id: set to true to merge every suggested cluster',
+                default: false,
+              },
+            },
           },
+          outputSchema: MERGE_DUPLICATES_OUTPUT,
         },
         {
           name: 'remove_duplicates',
@@ -372,6 +1432,7 @@ class queryAssistant {
           inputSchema: {
             type: 'object',
             properties: {
+              collection: COLLECTION_PROPERTY,
               confirm: {
                 type: 'boolean',
                 description: 'Set to true to confirm removal of duplicates',
@@ -379,79 +1440,2364 @@ class queryAssistant {
               },
             },
           },
+          outputSchema: REMOVE_DUPLICATES_OUTPUT,
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        case 'find_similar_queries':
-          return await this.handleFindSimilarQueries(request.params.arguments);
-        case 'add_training_example':
-          return await this.handleAddTrainingExample(request.params.arguments);
-        case 'list_training_examples':
-          return await this.handleListTrainingExamples(request.params.arguments);
-        case 'find_duplicates':
-          return await this.handleFindDuplicates(request.params.arguments);
-        case 'remove_duplicates':
-          return await this.handleRemoveDuplicates(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
-    });
+        {
+          name: 'create_collection',
+          description: 'Create a named collection of training examples with its own data file, vector index and embedding settings',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Collection name: lowercase letters, digits, "-" and "_"',
+              },
+              description: {
+                type: 'string',
+                description: 'What the collection is for',
+              },
+              embedding_provider: {
+                type: 'string',
+                enum: EMBEDDING_PROVIDER_NAMES,
+                description: 'Embedding provider (default: the server\'s embedding settings)',
+              },
+              embedding_model: {
+                type: 'string',
+                description: 'Embedding model (default: the provider\'s default model)',
+              },
+              embedding_dimension: {
+                type: 'number',
+                description: 'Embedding dimension (default: detected from the model)',
+              },
+              embedding_base_url: {
+                type: 'string',
+                description: 'Base URL of an OpenAI-compatible embeddings endpoint',
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: CREATE_COLLECTION_OUTPUT,
+        },
+        {
+          name: 'list_collections',
+          description: 'List the collections with their embedding settings and number of examples',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+          outputSchema: LIST_COLLECTIONS_OUTPUT,
+        },
+        {
+          name: 'use_collection',
+          description: 'Switch the active collection, used by every tool called without a collection argument',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Name of the collection to use',
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: USE_COLLECTION_OUTPUT,
+        },
+        {
+          name: 'drop_collection',
+          description: 'Delete a collection with all of its training examples and its vector index',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Name of the collection to delete',
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Set to true to confirm deletion',
+                default: false,
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: DROP_COLLECTION_OUTPUT,
+        },
+        {
+          name: 'register_schema',
+          description: 'Register the labels, relationship types, properties, tables, columns, classes or predicates that exist in a data source, for a collection or one of its domains. Registering an existing name replaces that schema',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection the schema belongs to (default: the active collection)',
+              },
+              name: {
+                type: 'string',
+                description: 'Schema name (lowercase letters, digits, - and _), unique across collections',
+              },
+              description: {
+                type: 'string',
+                description: 'What the schema describes',
+              },
+              domain: {
+                type: 'string',
+                description: 'Domain whose examples use this schema. Without a domain, the schema covers the whole collection',
+              },
+              node_labels: {
+                type: 'object',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+                description: 'Graph node labels mapped to their property names, e.g. {"CDE": ["name", "description"]}',
+              },
+              relationship_types: {
+                type: 'object',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+                description: 'Graph relationship types mapped to their property names',
+              },
+              tables: {
+                type: 'object',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+                description: 'SQL tables (optionally schema-qualified) mapped to their column names',
+              },
+              classes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'RDF class IRIs, in full or prefixed',
+              },
+              predicates: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'RDF predicate IRIs, in full or prefixed',
+              },
+              prefixes: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Prefixes used by classes and predicates, e.g. {"ex": "http://example.org/"}',
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: REGISTER_SCHEMA_OUTPUT,
+        },
+        {
+          name: 'delete_schema',
+          description: 'Delete a registered schema',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              name: {
+                type: 'string',
+                description: 'Name of the schema to delete',
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: DELETE_SCHEMA_OUTPUT,
+        },
+        {
+          name: 'check_query_against_schema',
+          description: 'Flag labels, relationship types, properties, tables, columns, classes or predicates that the registered schema does not know, in a candidate query, a stored example or every stored example',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              query: {
+                type: 'string',
+                description: 'Candidate query to check',
+              },
+              id: {
+                type: 'string',
+                description: 'ID of a stored example to check. Without query or id, every stored example is checked',
+              },
+              language: {
+                type: 'string',
+                enum: QUERY_LANGUAGES,
+                description: 'Language of the candidate query (detected automatically if not provided)',
+              },
+              schema: {
+                type: 'string',
+                description: 'Name of the schema to check against (default: the schema of the domain, or the collection-wide schema)',
+              },
+              domain: {
+                type: 'string',
+                description: 'Domain of the candidate query, used to pick its schema',
+              },
+            },
+          },
+          outputSchema: CHECK_SCHEMA_OUTPUT,
+        },
+        {
+          name: 'configure_executor',
+          description: 'Configure the database that execute_query and verify_training_data run queries against: a SQLite file (SQL), a Neo4j server (Cypher) or a SPARQL endpoint. Queries are always run read-only',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              type: {
+                type: 'string',
+                enum: [...EXECUTOR_TYPES, 'none'],
+                description: 'Kind of database, or none to remove the configuration',
+              },
+              path: {
+                type: 'string',
+                description: 'sqlite: database file, absolute or relative to the data directory',
+              },
+              url: {
+                type: 'string',
+                description: 'neo4j: Bolt URL, e.g. bolt://localhost:7687',
+              },
+              username: {
+                type: 'string',
+                description: 'neo4j: user name (default: neo4j)',
+              },
+              password_env: {
+                type: 'string',
+                description: 'neo4j: environment variable holding the password (default: NEO4J_PASSWORD)',
+              },
+              database: {
+                type: 'string',
+                description: 'neo4j: database name (default: the server default)',
+              },
+              endpoint: {
+                type: 'string',
+                description: 'sparql: query endpoint URL',
+              },
+              auth_token_env: {
+                type: 'string',
+                description: 'sparql: environment variable holding a bearer token, if the endpoint needs one',
+              },
+            },
+            required: ['type'],
+          },
+          outputSchema: CONFIGURE_EXECUTOR_OUTPUT,
+        },
+        {
+          name: 'execute_query',
+          description: 'Run a query, or a stored example, against the database configured for the collection and return the first rows',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              query: {
+                type: 'string',
+                description: 'Query to run',
+              },
+              id: {
+                type: 'string',
+                description: 'ID of a stored example to run instead of a query',
+              },
+              language: {
+                type: 'string',
+                enum: QUERY_LANGUAGES,
+                description: 'Language of the query (detected automatically if not provided)',
+              },
+              max_rows: {
+                type: 'number',
+                description: `Maximum number of rows to return (default: ${DEFAULT_RESULT_ROWS})`,
+                minimum: 1,
+                maximum: MAX_RESULT_ROWS,
+                default: DEFAULT_RESULT_ROWS,
+              },
+              timeout_ms: {
+                type: 'number',
+                description: `Time limit in milliseconds (default: ${DEFAULT_QUERY_TIMEOUT_MS})`,
+                minimum: 1,
+                maximum: MAX_QUERY_TIMEOUT_MS,
+                default: DEFAULT_QUERY_TIMEOUT_MS,
+              },
+            },
+          },
+          outputSchema: EXECUTE_QUERY_OUTPUT,
+        },
+        {
+          name: 'verify_training_data',
+          description: 'Run the stored examples against the configured database and record pass/fail, row count and verification time in their metadata',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Examples to verify (default: every example in the language of the database)',
+              },
+              require_rows: {
+                type: 'boolean',
+                description: 'Count queries that return no rows as failed (default: false)',
+                default: false,
+              },
+              timeout_ms: {
+                type: 'number',
+                description: `Time limit per query in milliseconds (default: ${DEFAULT_QUERY_TIMEOUT_MS})`,
+                minimum: 1,
+                maximum: MAX_QUERY_TIMEOUT_MS,
+                default: DEFAULT_QUERY_TIMEOUT_MS,
+              },
+            },
+          },
+          outputSchema: VERIFY_OUTPUT,
+        },
+        {
+          name: 'record_feedback',
+          description: 'Report whether the examples returned by find_similar_queries led to a working query. Feedback boosts or demotes the examples in later searches',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              question: {
+                type: 'string',
+                description: 'The question the examples were retrieved for',
+              },
+              example_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'IDs of the examples that were used',
+              },
+              outcome: {
+                type: 'string',
+                enum: FEEDBACK_OUTCOMES,
+                description: 'helpful (the query worked), not_helpful (it did not) or corrected (it worked after the changes given in corrected_query)',
+              },
+              corrected_query: {
+                type: 'string',
+                description: 'The working query, required when the outcome is corrected',
+              },
+              add_example: {
+                type: 'boolean',
+                description: 'Also add the question and the corrected query as a new training example (default: false)',
+                default: false,
+              },
+            },
+            required: ['question', 'example_ids', 'outcome'],
+          },
+          outputSchema: RECORD_FEEDBACK_OUTPUT,
+        },
+        {
+          name: 'evaluate_retrieval',
+          description: 'Measure retrieval quality on labeled questions: recall@k, MRR and the threshold at which each hit is lost, per search configuration. The report is saved as JSON and compared with the previous run on the same test set',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              cases: {
+                type: 'array',
+                description: 'Labeled questions (provide exactly one of cases, path or leave_one_out)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    question: { type: 'string' },
+                    expected_ids: { type: 'array', items: { type: 'string' }, description: 'Examples that should be retrieved' },
+                    expected_queries: { type: 'array', items: { type: 'string' }, description: 'Queries that should be retrieved, compared after normalization' },
+                    language: { type: 'string', enum: QUERY_LANGUAGES, description: 'Only search examples in this language' },
+                  },
+                  required: ['question'],
+                },
+              },
+              path: {
+                type: 'string',
+                description: 'JSON test set file, relative to the data directory: an array of cases, or an object with cases and optionally configurations and k_values',
+              },
+              leave_one_out: {
+                type: 'boolean',
+                description: 'Use the alternate questions of the stored examples as probes, each expecting its own example',
+              },
+              configurations: {
+                type: 'array',
+                description: 'Search configurations to compare (default: each mode at threshold 0.7)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    mode: { type: 'string', enum: SEARCH_MODES },
+                    threshold: { type: 'number', minimum: 0, maximum: 1 },
+                    include_query_text: { type: 'boolean' },
+                    feedback_weight: { type: 'number', minimum: 0, maximum: 1 },
+                  },
+                  required: ['mode'],
+                },
+              },
+              k_values: {
+                type: 'array',
+                items: { type: 'number', minimum: 1, maximum: MAX_K },
+                description: `Cut-offs for recall@k (default: ${DEFAULT_K_VALUES.join(', ')})`,
+              },
+            },
+          },
+          outputSchema: EVALUATE_RETRIEVAL_OUTPUT,
+        },
+        {
+          name: 'list_versions',
+          description: `List the saved versions of a collection, newest first. A version is saved after every bulk or destructive edit (import, delete, merge and rollback), keeping the last ${KEEP_VERSIONS}, and on demand with create_version`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+            },
+          },
+          outputSchema: LIST_VERSIONS_OUTPUT,
+        },
+        {
+          name: 'create_version',
+          description: 'Save the collection as it is now as a version, which the retention policy never prunes',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              label: {
+                type: 'string',
+                description: 'Name to recognize the version by, e.g. "before cleanup"',
+              },
+            },
+          },
+          outputSchema: CREATE_VERSION_OUTPUT,
+        },
+        {
+          name: 'diff_versions',
+          description: 'Show the training examples added, removed and changed between two versions, or between a version and the current data',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              from: {
+                type: 'string',
+                description: 'Version ID (e.g. "v3") or "current"',
+              },
+              to: {
+                type: 'string',
+                description: 'Version ID or "current" (default: current)',
+                default: CURRENT_VERSION,
+              },
+            },
+            required: ['from'],
+          },
+          outputSchema: DIFF_VERSIONS_OUTPUT,
+        },
+        {
+          name: 'rollback',
+          description: 'Restore the training examples and their vectors to a version, without embedding them again. The current state is saved as a version first, so a rollback can be undone',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              version: {
+                type: 'string',
+                description: 'Version ID to restore, e.g. "v3"',
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Set to true to roll back; without it the changes are only shown',
+                default: false,
+              },
+            },
+            required: ['version'],
+          },
+          outputSchema: ROLLBACK_OUTPUT,
+        },
+        {
+          name: 'fill_query_template',
+          description: 'Adapt the query of a parameterized example to a new question: proposes a value for each slot from the question, and returns the filled-in query together with a parameter map and a query with placeholders for driver-side binding',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              id: {
+                type: 'string',
+                description: 'ID of an example with a template (see parameterize on add_training_example)',
+              },
+              question: {
+                type: 'string',
+                description: 'The new question to fill the slots from',
+              },
+              values: {
+                type: 'object',
+                description: 'Values for some slots by name, overriding what is read from the question',
+                additionalProperties: { type: ['string', 'number', 'boolean'] },
+              },
+            },
+            required: ['id', 'question'],
+          },
+          outputSchema: FILL_QUERY_TEMPLATE_OUTPUT,
+        },
+        {
+          name: 'add_alternate_questions',
+          description: 'Add paraphrases of an example\'s question. Each one is embedded as a vector of its own, so a search matching any phrasing finds the example',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              id: {
+                type: 'string',
+                description: 'ID of the training example',
+              },
+              questions: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Paraphrases to add; ones the example already has (ignoring case) are skipped',
+              },
+            },
+            required: ['id', 'questions'],
+          },
+          outputSchema: ADD_ALTERNATE_QUESTIONS_OUTPUT,
+        },
+        {
+          name: 'remove_alternate_questions',
+          description: 'Remove paraphrases of an example\'s question along with their vectors',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              id: {
+                type: 'string',
+                description: 'ID of the training example',
+              },
+              questions: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Alternate questions to remove (matched ignoring case)',
+              },
+            },
+            required: ['id', 'questions'],
+          },
+          outputSchema: REMOVE_ALTERNATE_QUESTIONS_OUTPUT,
+        },
+      ]),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      if (session.access === 'read-only' && this.isWriteCall(request.params.name, request.params.arguments)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${request.params.name} needs a read-write token${WRITE_CALL_CONDITIONS[request.params.name] ?? ''}`
+        );
+      }
+
+      switch (request.params.name) {
+        case 'find_similar_queries':
+          return await this.handleFindSimilarQueries(request.params.arguments, session);
+        case 'add_training_example':
+          return await this.handleAddTrainingExample(request.params.arguments, session);
+        case 'update_training_example':
+          return await this.handleUpdateTrainingExample(request.params.arguments, session);
+        case 'delete_training_example':
+          return await this.handleDeleteTrainingExample(request.params.arguments, session);
+        case 'list_training_examples':
+          return await this.handleListTrainingExamples(request.params.arguments, session);
+        case 'import_training_examples':
+          return await this.handleImportTrainingExamples(request.params.arguments, session);
+        case 'export_training_examples':
+          return await this.handleExportTrainingExamples(request.params.arguments, session);
+        case 'validate_training_data':
+          return await this.handleValidateTrainingData(request.params.arguments, session);
+        case 'check_index':
+          return await this.handleCheckIndex(request.params.arguments, session);
+        case 'cache_stats':
+          return await this.handleCacheStats(request.params.arguments, session);
+        case 'find_duplicates':
+          return await this.handleFindDuplicates(request.params.arguments, session);
+        case 'remove_duplicates':
+          return await this.handleRemoveDuplicates(request.params.arguments, session);
+        case 'merge_duplicates':
+          return await this.handleMergeDuplicates(request.params.arguments, session);
+        case 'create_collection':
+          return await this.handleCreateCollection(request.params.arguments, session);
+        case 'list_collections':
+          return await this.handleListCollections(session);
+        case 'use_collection':
+          return await this.handleUseCollection(request.params.arguments, session);
+        case 'drop_collection':
+          return await this.handleDropCollection(request.params.arguments, session);
+        case 'register_schema':
+          return await this.handleRegisterSchema(request.params.arguments, session);
+        case 'delete_schema':
+          return await this.handleDeleteSchema(request.params.arguments, session);
+        case 'check_query_against_schema':
+          return await this.handleCheckQueryAgainstSchema(request.params.arguments, session);
+        case 'configure_executor':
+          return await this.handleConfigureExecutor(request.params.arguments, session);
+        case 'execute_query':
+          return await this.handleExecuteQuery(request.params.arguments, session);
+        case 'verify_training_data':
+          return await this.handleVerifyTrainingData(request.params.arguments, session);
+        case 'record_feedback':
+          return await this.handleRecordFeedback(request.params.arguments, session);
+        case 'evaluate_retrieval':
+          return await this.handleEvaluateRetrieval(request.params.arguments, session);
+        case 'list_versions':
+          return await this.handleListVersions(request.params.arguments, session);
+        case 'create_version':
+          return await this.handleCreateVersion(request.params.arguments, session);
+        case 'diff_versions':
+          return await this.handleDiffVersions(request.params.arguments, session);
+        case 'rollback':
+          return await this.handleRollback(request.params.arguments, session);
+        case 'fill_query_template':
+          return await this.handleFillQueryTemplate(request.params.arguments, session);
+        case 'add_alternate_questions':
+          return await this.handleAddAlternateQuestions(request.params.arguments, session);
+        case 'remove_alternate_questions':
+          return await this.handleRemoveAlternateQuestions(request.params.arguments, session);
+        default:
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Unknown tool: ${request.params.name}`
+          );
+      }
+    });
+  }
+
+  private filterTools<T extends { name: string }>(session: Session, tools: T[]): T[] {
+    // check_index stays listed for read-only clients, which can still run it without repair.
+    // export_training_examples writes a file when given a path, so it is not offered to them.
+    return session.access === 'read-only'
+      ? tools.filter(tool => !WRITE_TOOLS.includes(tool.name) && tool.name !== 'export_training_examples')
+      : tools;
+  }
+
+  private isWriteCall(name: string, args: any): boolean {
+    return WRITE_TOOLS.includes(name) ||
+      (name === 'check_index' && args?.repair === true) ||
+      (name === 'export_training_examples' && args?.path !== undefined);
+  }
+
+  private async handleFindSimilarQueries(args: any, session: Session) {
+    if (!isValidFindSimilarArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for find_similar_queries'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const { question, limit = 3, threshold = 0.7, mode = 'vector', include_query_text: includeQueryText, feedback_weight: feedbackWeight } = args;
+      const filters: SearchFilters = {
+        language: args.language,
+        domain: args.domain,
+        complexity: args.complexity,
+        tags: args.tags,
+        tagsMatch: args.tags_match,
+        createdAfter: args.created_after,
+        createdBefore: args.created_before,
+      };
+      const similarExamples = await collection.findSimilarExamples(question, limit, threshold, filters, { mode, includeQueryText, feedbackWeight });
+
+      if (similarExamples.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No similar examples found. You may need to add more training data or lower the similarity threshold.',
+            },
+          ],
+          structuredContent: { question, mode, examples: [] },
+        };
+      }
+
+      // Format as few-shot examples
+      const fewShotPrompt = similarExamples
+        .map((item, index) => {
+          const scores = mode === 'vector'
+            ? `similarity: ${item.similarity.toFixed(3)}`
+            : [
+                `score: ${item.similarity.toFixed(3)}`,
+                item.vectorSimilarity !== undefined ? `vector similarity: ${item.vectorSimilarity.toFixed(3)}` : '',
+                item.lexicalScore !== undefined ? `lexical score: ${item.lexicalScore.toFixed(3)}` : '',
+              ].filter(Boolean).join(', ');
+          const feedback = item.example.metadata?.feedback;
+          return [
+            `Example ${index + 1} (${scores}):`,
+            `ID: ${item.example.id}`,
+            `Question: ${item.example.question}`,
+            item.matchedQuestion && item.matchedQuestion !== item.example.question ? `Matched alternate question: ${item.matchedQuestion}` : '',
+            `Query: ${item.example.query}`,
+            item.example.template ? `Template parameters: ${formatTemplateParameters(item.example.template)} (adapt them with fill_query_template)` : '',
+            item.example.language ? `Language: ${item.example.language}` : '',
+            item.example.metadata?.domain ? `Domain: ${item.example.metadata.domain}` : '',
+            item.example.metadata?.complexity ? `Complexity: ${item.example.metadata.complexity}` : '',
+            feedback ? `Feedback: ${feedback.helpful} helpful, ${feedback.not_helpful} not helpful, ${feedback.corrected} corrected` : '',
+          ].filter(Boolean).join('\n');
+        })
+        .join('\n\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${similarExamples.length} similar examples (${mode} search) for: "${question}"\n\n${fewShotPrompt}\n\nOnce the query has been tried, report whether these examples helped with 'record_feedback'.`,
+          },
+        ],
+        structuredContent: { question, mode, examples: similarExamples.map(similarExampleOutput) },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error finding similar queries: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleRecordFeedback(args: any, session: Session) {
+    if (!isValidRecordFeedbackArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for record_feedback (corrected_query is required for, and only allowed with, outcome=corrected)'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const { question, example_ids: exampleIds, outcome, corrected_query: correctedQuery } = args;
+      const used = collection.trainingData.filter(example => exampleIds.includes(example.id));
+
+      // A failed addition (e.g. a duplicate) is reported, but the feedback is still recorded
+      let added: TrainingExample | undefined;
+      let addError: string | undefined;
+      if (args.add_example === true && correctedQuery !== undefined && used.length === new Set(exampleIds).size) {
+        try {
+          const domain = used.find(example => example.metadata?.domain)?.metadata?.domain;
+          added = await collection.addTrainingExample(question, correctedQuery, domain ? { domain } : undefined);
+        } catch (error) {
+          addError = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+
+      await collection.recordFeedback({
+        question,
+        example_ids: exampleIds,
+        outcome,
+        ...(correctedQuery !== undefined ? { corrected_query: correctedQuery } : {}),
+        ...(added ? { added_example_id: added.id } : {}),
+        created_at: new Date().toISOString(),
+      });
+
+      const lines = [`Recorded ${outcome.replace('_', ' ')} feedback for ${exampleIds.length} examples.`];
+      if (added) {
+        lines.push(`Added the corrected query as training example ${added.id}.`);
+      } else if (addError) {
+        lines.push(`The corrected query was not added as a training example: ${addError}`);
+      } else if (correctedQuery !== undefined && args.add_example !== true) {
+        lines.push('Set add_example=true to also keep the corrected query as a training example.');
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+        structuredContent: {
+          outcome,
+          example_ids: exampleIds,
+          ...(added ? { added_example_id: added.id } : {}),
+          ...(addError ? { add_error: addError } : {}),
+        },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error recording feedback: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleEvaluateRetrieval(args: any, session: Session) {
+    if (!isValidEvaluateArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for evaluate_retrieval (provide exactly one of cases, path or leave_one_out)'
+      );
+    }
+    const overrides = {
+      ...(args.configurations !== undefined ? { configurations: args.configurations } : {}),
+      ...(args.k_values !== undefined ? { k_values: args.k_values } : {}),
+    };
+    const errors = [
+      ...(args.cases !== undefined ? validateEvaluationCases(args.cases) : []),
+      ...(args.configurations !== undefined ? validateEvaluationConfigurations(args.configurations) : []),
+      ...(args.k_values !== undefined ? validateKValues(args.k_values) : []),
+    ];
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for evaluate_retrieval: ${errors.join('; ')}`);
+    }
+
+    const testSetPath = args.path !== undefined ? resolveDataPath(args.path) : undefined;
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const source = args.cases !== undefined
+        ? { testSet: { cases: args.cases }, name: 'inline' }
+        : await this.loadTestSet(collection, testSetPath);
+      const { text, report, file, previous } = await this.evaluate(collection, { ...source.testSet, ...overrides }, source.name);
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+        structuredContent: { path: file, ...(previous ? { previous: previous.created_at } : {}), report },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error evaluating retrieval: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  // A test set file, or the leave-one-out cases of the collection without one
+  private async loadTestSet(collection: QueryCollection, file?: string): Promise<{ testSet: EvaluationTestSet; name: string }> {
+    if (file !== undefined) {
+      return { testSet: await readEvaluationTestSet(file), name: file };
+    }
+    const cases = leaveOneOutCases(collection.trainingData);
+    if (cases.length === 0) {
+      throw new Error('No example has alternate questions to use as probes');
+    }
+    return { testSet: { cases }, name: 'leave-one-out' };
+  }
+
+  // Run an evaluation, save the report next to the collection and describe it. Inline cases change
+  // from call to call, so only file and leave-one-out runs are compared with earlier ones.
+  private async evaluate(collection: QueryCollection, testSet: EvaluationTestSet, name: string) {
+    const previous = name !== 'inline' ? await readPreviousEvaluation(collection.directory, name) : undefined;
+    const report = await evaluateRetrieval(collection, testSet.cases, {
+      configurations: testSet.configurations,
+      kValues: testSet.k_values,
+      testSet: name,
+    });
+    const file = await writeEvaluationReport(collection.directory, report);
+    return { text: `${formatEvaluationReport(report, previous)}\n\nFull report saved to ${file}`, report, file, previous };
+  }
+
+  private async handleListVersions(args: any, session: Session) {
+    const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+    const versions = await collection.versions();
+    const retention = KEEP_VERSIONS > 0
+      ? `The last ${KEEP_VERSIONS} automatic versions are kept; versions created on demand are never pruned.`
+      : 'Automatic versions are off; versions are only created on demand and before rollbacks.';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: versions.length > 0
+            ? `${versions.length} versions of collection "${collection.name}":\n\n${versions.map(formatVersion).join('\n')}\n\n${retention}`
+            : `Collection "${collection.name}" has no versions yet. ${retention}`,
+        },
+      ],
+      structuredContent: { keep_versions: KEEP_VERSIONS, versions: versions.map(versionOutput) },
+    };
+  }
+
+  private async handleCreateVersion(args: any, session: Session) {
+    if (!isValidCreateVersionArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for create_version'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const version = await collection.createVersion(args?.label);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Saved version ${formatVersion(version)}`,
+          },
+        ],
+        structuredContent: { version: versionOutput(version) },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error creating version: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDiffVersions(args: any, session: Session) {
+    if (!isValidDiffVersionsArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for diff_versions (versions are given as "v<number>" or "current")'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const to = args.to ?? CURRENT_VERSION;
+      const diff = await collection.diffVersions(args.from, to);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatDiff(diff, args.from, to),
+          },
+        ],
+        structuredContent: { from: args.from, to, ...diff },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error comparing versions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleRollback(args: any, session: Session) {
+    if (!isValidRollbackArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for rollback (versions are given as "v<number>")'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+
+      if (args.confirm !== true) {
+        const diff = await collection.diffVersions(CURRENT_VERSION, args.version);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: diffIsEmpty(diff)
+                ? `The training data already matches ${args.version}.`
+                : `${formatDiff(diff, 'the current data', args.version)}\n\nSet confirm=true to roll back.`,
+            },
+          ],
+          structuredContent: {
+            confirmed: false,
+            version: args.version,
+            restored: diff.added.map(example => example.id),
+            removed: diff.removed.map(example => example.id),
+            reverted: diff.changed.map(change => change.id),
+          },
+        };
+      }
+
+      const { diff, before, after, reembedded } = await collection.rollback(args.version);
+      const lines = diffIsEmpty(diff)
+        ? [`The training data already matches ${args.version}; nothing was changed.`]
+        : [
+          `Rolled back collection "${collection.name}" to ${args.version}: restored ${diff.added.length}, removed ${diff.removed.length} and reverted ${diff.changed.length} examples.`,
+          ...(reembedded.length > 0 ? [`Embedded ${reembedded.length} examples again whose vectors were not in the version.`] : []),
+          ...(before ? [`The previous state was saved as ${before.id}; roll back to it to undo.`] : []),
+        ];
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+        structuredContent: {
+          confirmed: true,
+          version: args.version,
+          restored: diff.added.map(example => example.id),
+          removed: diff.removed.map(example => example.id),
+          reverted: diff.changed.map(change => change.id),
+          reembedded,
+          ...(before ? { before_version: before.id } : {}),
+          ...(after ? { after_version: after.id } : {}),
+        },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error rolling back: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleFillQueryTemplate(args: any, session: Session) {
+    if (!isValidFillTemplateArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for fill_query_template'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const example = collection.trainingData.find(candidate => candidate.id === args.id);
+      if (!example) {
+        throw new McpError(ErrorCode.InvalidParams, `Training example not found: ${args.id}`);
+      }
+      const { template } = example;
+      if (!template) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Training example ${args.id} has no template. Create one with update_training_example and parameterize=true`
+        );
+      }
+
+      const values: { [name: string]: TemplateValue } = {};
+      for (const [name, raw] of Object.entries(args.values ?? {})) {
+        const parameter = template.parameters.find(candidate => candidate.name === name);
+        if (!parameter) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unknown parameter "${name}". The template has: ${template.parameters.map(candidate => candidate.name).join(', ')}`
+          );
+        }
+        const value = coerceTemplateValue(parameter.type, raw);
+        if (value === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, `Parameter "${name}" expects a ${parameter.type}${parameter.type === 'date' ? ' (YYYY-MM-DD)' : ''}`);
+        }
+        values[name] = value;
+      }
+
+      const bindings = proposeBindings({ ...example, template }, args.question, values);
+      const parameters = Object.fromEntries(bindings.map(binding => [binding.name, binding.value]));
+      const { query, boundQuery } = renderTemplate(template, parameters, example.language);
+      const kept = bindings.filter(binding => binding.source === 'example').length;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Filled the template of ${example.id} for: "${args.question}"
+
+Query:
+${query}
+
+With placeholders:
+${boundQuery}
+
+Parameters:
+${bindings.map(binding => `- ${binding.name} (${binding.type}) = ${JSON.stringify(binding.value)}, ${BINDING_SOURCES[binding.source]}${binding.matched_text ? ` "${binding.matched_text}"` : ''}`).join('\n')}` +
+              (kept > 0 ? `\n\n${kept} parameters kept the example's value because the question gives none; check them or pass them in values.` : ''),
+          },
+        ],
+        structuredContent: { id: example.id, query, bound_query: boundQuery, parameters, bindings },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error filling query template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleAddAlternateQuestions(args: any, session: Session) {
+    if (!isValidAlternateQuestionsArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for add_alternate_questions'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const { example, added, skipped } = await collection.addAlternateQuestions(args.id, args.questions);
+
+      const lines = [`Added ${added.length} alternate question(s) to ${example.id}.`];
+      if (skipped.length > 0) {
+        lines.push(`Skipped (already a phrasing of the example): ${skipped.join(' | ')}`);
+      }
+      lines.push(`Question: ${example.question}`, `Alternate questions: ${(example.alternate_questions || []).join(' | ') || 'none'}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+        structuredContent: { example, added, skipped },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error adding alternate questions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleRemoveAlternateQuestions(args: any, session: Session) {
+    if (!isValidAlternateQuestionsArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for remove_alternate_questions'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const { example, removed, notFound } = await collection.removeAlternateQuestions(args.id, args.questions);
+
+      const lines = [`Removed ${removed.length} alternate question(s) from ${example.id}.`];
+      if (notFound.length > 0) {
+        lines.push(`Not found: ${notFound.join(' | ')}`);
+      }
+      lines.push(`Question: ${example.question}`, `Alternate questions: ${(example.alternate_questions || []).join(' | ') || 'none'}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+        structuredContent: { example, removed, not_found: notFound },
+        isError: removed.length === 0,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error removing alternate questions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleAddTrainingExample(args: any, session: Session) {
+    if (!isValidAddExampleArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for add_training_example'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const { question, query, metadata, language, parameterize } = args;
+      const example = await collection.addTrainingExample(question, query, metadata, language, {
+        parameterize,
+        alternateQuestions: args.alternate_questions,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully added training example with ID: ${example.id}\nQuestion: ${question}\nQuery: ${query}\nLanguage: ${example.language || 'unknown'}${describeTemplate(example, parameterize)}` +
+              (example.alternate_questions ? `\nAlternate questions: ${example.alternate_questions.join(' | ')}` : ''),
+          },
+        ],
+        structuredContent: { example },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error adding training example: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleUpdateTrainingExample(args: any, session: Session) {
+    if (!isValidUpdateExampleArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for update_training_example'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const { id, question, query, language, metadata, parameterize } = args;
+      const example = await collection.updateTrainingExample(id, { question, query, language, metadata, parameterize });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully updated training example with ID: ${example.id}\nQuestion: ${example.question}\nQuery: ${example.query}\nUpdated: ${example.metadata?.updated_at}${describeTemplate(example, parameterize)}`,
+          },
+        ],
+        structuredContent: { example },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error updating training example: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDeleteTrainingExample(args: any, session: Session) {
+    if (!isValidDeleteExampleArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for delete_training_example'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const ids = [...(args.id ? [args.id] : []), ...(args.ids || [])];
+      const { deleted, notFound } = await collection.deleteTrainingExamples(ids);
+
+      const lines = [`Deleted ${deleted.length} training example(s).`];
+      if (deleted.length > 0) {
+        lines.push(`Deleted IDs: ${deleted.join(', ')}`);
+      }
+      if (notFound.length > 0) {
+        lines.push(`Not found: ${notFound.join(', ')}`);
+      }
+      lines.push(`Remaining count: ${collection.trainingData.length}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+        structuredContent: { deleted, not_found: notFound, remaining: collection.trainingData.length },
+        isError: deleted.length === 0,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error deleting training examples: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleListTrainingExamples(args: any, session: Session) {
+    // Listing everything takes no arguments at all
+    args = args ?? {};
+    if (!isValidListExamplesArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for list_training_examples'
+      );
+    }
+    if (args.search !== undefined && args.regex) {
+      try {
+        searchMatcher(args.search, true);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid search pattern: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const collection = await this.getCollection(args.collection ?? session.activeCollection);
+    const sort = args.sort ?? 'created_at';
+    const page = listExamples(collection.trainingData, {
+      filters: {
+        language: args.language,
+        domain: args.domain,
+        complexity: args.complexity,
+        tags: args.tags,
+        tagsMatch: args.tags_match,
+        createdAfter: args.created_after,
+        createdBefore: args.created_before,
+      },
+      search: args.search,
+      regex: args.regex,
+      sort,
+      order: args.order ?? (sort === 'usage' ? 'desc' : 'asc'),
+      limit: args.limit ?? 10,
+      cursor: args.cursor,
+    });
+    const examples = page.examples;
+
+    const examplesList = examples
+      .map((example, index) => {
+        return `${index + 1}. ID: ${example.id}
+   Question: ${example.question}
+   Query: ${example.query}
+   ${example.language ? `Language: ${example.language}` : ''}
+   ${example.metadata?.domain ? `Domain: ${example.metadata.domain}` : ''}
+   ${example.metadata?.complexity ? `Complexity: ${example.metadata.complexity}` : ''}
+   ${sort === 'usage' ? `Usage: ${usageCount(example)}` : ''}
+   Created: ${example.metadata?.created_at || 'Unknown'}`;
+      })
+      .join('\n\n');
+    const more = page.nextCursor ? `\n\nMore examples follow: pass cursor="${page.nextCursor}" to list the next page.` : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Training Examples (showing ${examples.length} of ${page.matched} matching, ${collection.trainingData.length} total):\n\n${examplesList}${more}`,
+        },
+      ],
+      structuredContent: {
+        total: collection.trainingData.length,
+        matched: page.matched,
+        examples,
+        ...(page.nextCursor ? { next_cursor: page.nextCursor } : {}),
+      },
+    };
+  }
+
+  // The command line passes its own resolvePath, since files given in a shell may be anywhere
+  private async handleImportTrainingExamples(args: any, session: Session, resolvePath = resolveDataPath) {
+    if (!isValidImportArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for import_training_examples (provide a format and exactly one of content or path)'
+      );
+    }
+    const inputPath = args.path !== undefined ? resolvePath(args.path) : undefined;
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const { format, dry_run: dryRun = false, batch_size: batchSize = EMBEDDING_BATCH_SIZE } = args;
+      const content = inputPath !== undefined
+        ? await fs.readFile(inputPath, 'utf8')
+        : args.content!;
+
+      const rows = parseTrainingExamples(format, content);
+      const reports = await collection.importTrainingExamples(rows, { dryRun, batchSize });
+
+      const counts: { [status: string]: number } = {};
+      reports.forEach(report => {
+        counts[report.status] = (counts[report.status] || 0) + 1;
+      });
+      const summary = Object.entries(counts)
+        .map(([status, count]) => `${status}: ${count}`)
+        .join(', ');
+
+      const reportList = reports
+        .map(report => `Row ${report.row}: ${report.status}${report.id ? ` (ID: ${report.id})` : ''}${report.message ? ` - ${report.message}` : ''}`)
+        .join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${dryRun ? 'Dry run of import' : 'Import'} of ${reports.length} rows (${summary || 'no rows'})${dryRun ? '. Nothing was written.' : ''}\n\n${reportList}`,
+          },
+        ],
+        structuredContent: { dry_run: dryRun, counts, rows: reports },
+        isError: reports.some(report => report.status === 'error'),
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error importing training examples: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleExportTrainingExamples(args: any, session: Session, resolvePath = resolveDataPath) {
+    if (!isValidExportArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for export_training_examples'
+      );
+    }
+    const outputPath = args.path !== undefined ? resolvePath(args.path) : undefined;
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const { format, domain } = args;
+      const examples = domain
+        ? collection.trainingData.filter(example => example.metadata?.domain === domain)
+        : collection.trainingData;
+      const output = serializeTrainingExamples(format, examples);
+
+      if (outputPath !== undefined) {
+        await fs.outputFile(outputPath, output);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Exported ${examples.length} training examples as ${format} to ${outputPath}`,
+            },
+          ],
+          structuredContent: { format, count: examples.length, path: outputPath },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: output,
+          },
+        ],
+        structuredContent: { format, count: examples.length, content: output },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error exporting training examples: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleValidateTrainingData(args: any, session: Session) {
+    const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+    const invalid: { example: TrainingExample; errors: QuerySyntaxError[] }[] = [];
+    let checked = 0;
+
+    for (const example of collection.trainingData) {
+      const errors = collection.checkSyntax(example);
+      if (!errors) {
+        continue;
+      }
+      checked++;
+      if (errors.length > 0) {
+        invalid.push({ example, errors });
+      }
+    }
+
+    const skipped = collection.trainingData.length - checked;
+    const summary = `Checked ${checked} of ${collection.trainingData.length} training examples${skipped > 0 ? ` (${skipped} skipped: no parser for their language)` : ''}.`;
+    const structuredContent = {
+      checked,
+      skipped,
+      invalid: invalid.map(({ example, errors }) => ({ ...example, errors })),
+    };
+
+    if (invalid.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${summary}\nAll checked queries parse successfully.`,
+          },
+        ],
+        structuredContent,
+      };
+    }
+
+    const invalidList = invalid
+      .map(({ example, errors }, index) => {
+        return `${index + 1}. ID: ${example.id}
+   Question: ${example.question}
+   Query: ${example.query}
+   Language: ${example.language || 'unknown'}
+   Errors:
+${errors.map(error => `      Line ${error.line}, column ${error.column}: ${error.message}`).join('\n')}`;
+      })
+      .join('\n\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${summary}\nFound ${invalid.length} examples with invalid queries:\n\n${invalidList}\n\nUse 'update_training_example' to fix them or 'delete_training_example' to remove them.`,
+        },
+      ],
+      structuredContent,
+    };
+  }
+
+  private async handleCheckIndex(args: any, session: Session) {
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const report = collection.checkIndex();
+      const formatReport = (report: IndexCheckReport) => `Training examples: ${report.exampleCount}
+Indexed vectors: ${report.indexedCount} (expected ${report.phrasingCount}, one per question and alternate question)
+Capacity: ${report.capacity}
+Dimension: ${report.indexDimension} (expected ${report.expectedDimension})
+Vectors without training data: ${report.orphanLabels.length > 0 ? `${report.orphanLabels.length} (labels: ${report.orphanLabels.join(', ')})` : 'none'}
+Training examples missing vectors: ${report.missingVectors.length > 0 ? `${report.missingVectors.length} (IDs: ${report.missingVectors.join(', ')})` : 'none'}`;
+
+      if (!collection.indexHasProblems(report)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Vector index is consistent with the training data.\n\n${formatReport(report)}`,
+            },
+          ],
+          structuredContent: { consistent: true, problems: [], report: indexReportOutput(report) },
+        };
+      }
+
+      const found = collection.describeIndexProblems(report);
+      const problems = found.map(problem => `- ${problem}`).join('\n');
+      if (args?.repair !== true) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Vector index is out of sync with the training data:\n${problems}\n\n${formatReport(report)}\n\nUse check_index with repair=true to fix it.`,
+            },
+          ],
+          structuredContent: { consistent: false, problems: found, report: indexReportOutput(report) },
+        };
+      }
+
+      const actions = await collection.repairIndex(report);
+      const after = collection.checkIndex();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found:\n${problems}\n\nRepairs:\n${actions.map(action => `- ${action}`).join('\n')}\n\nAfter repair:\n${formatReport(after)}`,
+          },
+        ],
+        structuredContent: { consistent: !collection.indexHasProblems(after), problems: found, repairs: actions, report: indexReportOutput(after) },
+        isError: collection.indexHasProblems(after),
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error checking index: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleCacheStats(args: any, session: Session) {
+    const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+    const stats = await collection.embeddings.stats();
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups > 0 ? `${((stats.hits / lookups) * 100).toFixed(1)}%` : 'n/a';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Embedding cache (${collection.embeddings.provider}/${collection.embeddings.model}):
+Hits: ${stats.hits}
+Misses: ${stats.misses}
+Hit rate: ${hitRate}
+Entries: ${stats.entries}
+Size: ${(stats.sizeBytes / 1024).toFixed(1)} KB
+Path: ${stats.path}`,
+        },
+      ],
+      structuredContent: {
+        provider: collection.embeddings.provider,
+        model: collection.embeddings.model,
+        hits: stats.hits,
+        misses: stats.misses,
+        ...(lookups > 0 ? { hit_rate: stats.hits / lookups } : {}),
+        entries: stats.entries,
+        size_bytes: stats.sizeBytes,
+        path: stats.path,
+      },
+    };
+  }
+
+  private async handleFindDuplicates(args: any, session: Session) {
+    if (args?.mode === 'near') {
+      return await this.handleFindNearDuplicates(args, session);
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      // Groups of examples with the same normalized question + query, oldest first
+      const duplicates = collection.findExactDuplicateGroups();
+
+      if (duplicates.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No duplicate training examples found.',
+            },
+          ],
+          structuredContent: { mode: 'exact', groups: [] },
+        };
+      }
+
+      let duplicateCount = 0;
+      const duplicatesList = duplicates
+        .map((group, groupIndex) => {
+          duplicateCount += group.length - 1; // Count extras (keep first, remove rest)
+          const examples = group
+            .map((example, index) => {
+              return `   ${index === 0 ? '[KEEP]' : '[DUPLICATE]'} ID: ${example.id}
+      Created: ${example.metadata?.created_at || 'Unknown'}`;
+            })
+            .join('\n');
+          
+          return `Duplicate Group ${groupIndex + 1}:
+   Question: "${group[0].question}"
+   Query: "${group[0].query}"
+   Examples:
+${examples}`;
+        })
+        .join('\n\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${duplicates.length} duplicate groups with ${duplicateCount} duplicate entries:\n\n${duplicatesList}\n\nUse 'remove_duplicates' tool with confirm=true to remove duplicates.`,
+          },
+        ],
+        structuredContent: {
+          mode: 'exact',
+          groups: duplicates.map(group => ({
+            examples: group.map((example, index) => ({ ...example, keep: index === 0, remove: index > 0 })),
+          })),
+        },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error finding duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleFindNearDuplicates(args: any, session: Session) {
+    if (!isValidNearDuplicateArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for find_duplicates'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const { threshold = NEAR_DUPLICATE_THRESHOLD, query_weight: queryWeight = NEAR_DUPLICATE_QUERY_WEIGHT } = args;
+      const clusters = collection.findNearDuplicateClusters(threshold, queryWeight);
+
+      if (clusters.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `No near-duplicate training examples found at threshold ${threshold}.`,
+            },
+          ],
+          structuredContent: { mode: 'near', threshold, groups: [] },
+        };
+      }
+
+      const duplicateCount = clusters.reduce((count, cluster) => count + cluster.duplicates.length, 0);
+      const clustersList = clusters
+        .map((cluster, clusterIndex) => {
+          const duplicates = cluster.duplicates
+            .map(({ example, similarity }) => {
+              return `   [MERGE] ID: ${example.id} (similarity: ${similarity.toFixed(3)})
+      Question: ${example.question}
+      Query: ${example.query}`;
+            })
+            .join('\n');
+
+          return `Cluster ${clusterIndex + 1}:
+   [KEEP] ID: ${cluster.survivor.id}
+      Question: ${cluster.survivor.question}
+      Query: ${cluster.survivor.query}
+${duplicates}
+   Merge with: merge_duplicates keep_id=${cluster.survivor.id} merge_ids=${JSON.stringify(cluster.duplicates.map(({ example }) => example.id))}`;
+        })
+        .join('\n\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${clusters.length} near-duplicate clusters with ${duplicateCount} entries to merge:\n\n${clustersList}\n\nUse 'merge_duplicates' with keep_id and merge_ids to merge one cluster, or with confirm=true to merge all of them. Merged questions are kept as alternate questions of the survivor.`,
+          },
+        ],
+        structuredContent: {
+          mode: 'near',
+          threshold,
+          groups: clusters.map(cluster => ({
+            examples: [
+              { ...cluster.survivor, keep: true, remove: false },
+              ...cluster.duplicates.map(({ example, similarity }) => ({ ...example, keep: false, remove: true, similarity })),
+            ],
+          })),
+        },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error finding near-duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleMergeDuplicates(args: any, session: Session) {
+    if (!isValidMergeArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for merge_duplicates (keep_id and merge_ids must be given together)'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      let clusters: { keepId: string; mergeIds: string[] }[];
+      if (args.keep_id) {
+        clusters = [{ keepId: args.keep_id, mergeIds: args.merge_ids! }];
+      } else {
+        const { threshold = NEAR_DUPLICATE_THRESHOLD, query_weight: queryWeight = NEAR_DUPLICATE_QUERY_WEIGHT } = args;
+        clusters = collection.findNearDuplicateClusters(threshold, queryWeight).map(cluster => ({
+          keepId: cluster.survivor.id,
+          mergeIds: cluster.duplicates.map(({ example }) => example.id),
+        }));
+
+        if (args.confirm !== true) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `This operation will merge ${clusters.length} near-duplicate clusters. Set confirm=true to proceed.\nUse find_duplicates with mode=near first to see what will be merged.`,
+              },
+            ],
+            structuredContent: { confirmed: false, merged: [], remaining: collection.trainingData.length },
+          };
+        }
+      }
+
+      const results = [];
+      const merged = [];
+      for (const { keepId, mergeIds } of clusters) {
+        const survivor = await collection.mergeTrainingExamples(keepId, mergeIds);
+        results.push(`Kept ${survivor.id}, merged ${mergeIds.join(', ')}\n   Alternate questions: ${(survivor.alternate_questions || []).join(' | ') || 'none'}`);
+        merged.push({ keep_id: survivor.id, merged_ids: mergeIds, alternate_questions: survivor.alternate_questions || [] });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: results.length > 0
+              ? `Merged ${results.length} clusters:\n\n${results.join('\n\n')}\n\nNew count: ${collection.trainingData.length}`
+              : 'No near-duplicates found to merge.',
+          },
+        ],
+        structuredContent: { confirmed: true, merged, remaining: collection.trainingData.length },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error merging duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleRemoveDuplicates(args: any, session: Session) {
+    try {
+      const collection = await this.getCollection(args?.collection ?? session.activeCollection);
+      const confirm = args?.confirm === true;
+
+      if (!confirm) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'This operation will remove duplicate training examples. Set confirm=true to proceed.\nUse find_duplicates first to see what will be removed.',
+            },
+          ],
+          structuredContent: { confirmed: false, removed: [], remaining: collection.trainingData.length },
+        };
+      }
+
+      // Keep the first (oldest) example of each group, remove the rest
+      const idsToRemove = collection.findExactDuplicateGroups().flatMap(group => group.slice(1).map(example => example.id));
+
+      if (idsToRemove.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No duplicates found to remove.',
+            },
+          ],
+          structuredContent: { confirmed: true, removed: [], remaining: collection.trainingData.length },
+        };
+      }
+
+      // Remove duplicates from training data and the vector index
+      const originalCount = collection.trainingData.length;
+      await collection.deleteTrainingExamples(idsToRemove);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully removed ${idsToRemove.length} duplicate examples.\nOriginal count: ${originalCount}\nNew count: ${collection.trainingData.length}\nRemoved IDs: ${idsToRemove.join(', ')}`,
+          },
+        ],
+        structuredContent: { confirmed: true, removed: idsToRemove, remaining: collection.trainingData.length },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error removing duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleCreateCollection(args: any, session: Session) {
+    if (!isValidCreateCollectionArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for create_collection'
+      );
+    }
+
+    const { name } = args;
+    if (!COLLECTION_NAME_PATTERN.test(name)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid collection name "${name}": use up to 64 lowercase letters, digits, "-" and "_"`
+      );
+    }
+
+    try {
+      if (await this.collectionExists(name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Collection already exists: ${name}`);
+      }
+
+      // Without a provider the collection inherits the server's embedding settings
+      const embedding: CollectionConfig['embedding'] = args.embedding_provider
+        ? {
+            provider: args.embedding_provider,
+            model: args.embedding_model,
+            dimension: args.embedding_dimension,
+            base_url: args.embedding_base_url,
+          }
+        : {
+            provider: EMBEDDING_CONFIG.provider,
+            model: args.embedding_model ?? EMBEDDING_CONFIG.model,
+            dimension: args.embedding_dimension ?? EMBEDDING_CONFIG.dimension,
+            base_url: args.embedding_base_url ?? EMBEDDING_CONFIG.baseUrl,
+          };
+      const config: CollectionConfig = {
+        name,
+        ...(args.description ? { description: args.description } : {}),
+        embedding,
+        created_at: new Date().toISOString(),
+      };
+
+      const directory = this.collectionDir(name);
+      await fs.outputJson(path.join(directory, COLLECTION_CONFIG_FILE), config, { spaces: 2 });
+
+      let collection: QueryCollection;
+      try {
+        collection = await this.getCollection(name);
+      } catch (error) {
+        // Don't leave a collection behind whose embedding provider cannot be used
+        await fs.remove(directory);
+        throw error;
+      }
+      const dimension = await collection.embeddings.getDimension();
+      this.notifyResourceListChanged();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Created collection "${name}" (${collection.embeddings.provider}/${collection.embeddings.model}, ${dimension} dimensions)\nDirectory: ${directory}\n\nPass collection="${name}" to other tools, or use_collection to make it the default.`,
+          },
+        ],
+        structuredContent: {
+          collection: {
+            name,
+            ...(config.description ? { description: config.description } : {}),
+            embedding: { provider: collection.embeddings.provider, model: collection.embeddings.model, dimension },
+            example_count: collection.trainingData.length,
+          },
+          directory,
+        },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error creating collection: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleListCollections(session: Session) {
+    try {
+      const lines: string[] = [];
+      const collections = [];
+      for (const name of await this.listCollectionNames()) {
+        const config = await this.readCollectionConfig(name);
+        const loaded = this.collections.get(name);
+        let count: number | undefined;
+        if (loaded) {
+          count = (await loaded).trainingData.length;
+        } else {
+          const dataPath = path.join(this.collectionDir(name), 'training_data.json');
+          const data = (await fs.pathExists(dataPath)) ? await fs.readJson(dataPath) : [];
+          count = Array.isArray(data) ? data.length : undefined;
+        }
+
+        lines.push(`${name === session.activeCollection ? '* ' : '  '}${name}${loaded && (await loaded).readOnly ? ' (read-only: locked by another process)' : ''}
+    Embeddings: ${config.embedding.provider}${config.embedding.model ? `/${config.embedding.model}` : ''}${config.embedding.dimension ? ` (${config.embedding.dimension} dimensions)` : ''}
+    Examples: ${count ?? 'unknown'}${config.description ? `\n    Description: ${config.description}` : ''}`);
+        collections.push({
+          name,
+          ...(config.description ? { description: config.description } : {}),
+          embedding: {
+            provider: config.embedding.provider,
+            ...(config.embedding.model ? { model: config.embedding.model } : {}),
+            ...(config.embedding.dimension ? { dimension: config.embedding.dimension } : {}),
+          },
+          ...(count !== undefined ? { example_count: count } : {}),
+          active: name === session.activeCollection,
+          read_only: loaded ? (await loaded).readOnly : false,
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Collections (* = active):\n\n${lines.join('\n\n')}`,
+          },
+        ],
+        structuredContent: { active: session.activeCollection, collections },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error listing collections: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleUseCollection(args: any, session: Session) {
+    if (!isValidCollectionNameArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for use_collection'
+      );
+    }
+
+    try {
+      // Load it now so a broken collection is reported here rather than by the next tool call
+      const collection = await this.getCollection(args.name);
+      session.activeCollection = collection.name;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Active collection is now "${collection.name}" (${collection.trainingData.length} training examples)`,
+          },
+        ],
+        structuredContent: { active: collection.name, example_count: collection.trainingData.length },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error switching collection: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDropCollection(args: any, session: Session) {
+    if (!isValidCollectionNameArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for drop_collection'
+      );
+    }
+
+    try {
+      const { name } = args;
+      if (name === DEFAULT_COLLECTION) {
+        throw new McpError(ErrorCode.InvalidParams, 'The default collection cannot be dropped');
+      }
+      if (!(await this.collectionExists(name))) {
+        throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${name}`);
+      }
+
+      if (args.confirm !== true) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `This operation will permanently delete collection "${name}" with all of its training examples. Set confirm=true to proceed.`,
+            },
+          ],
+          structuredContent: { name, dropped: false, active: session.activeCollection },
+        };
+      }
+
+      // Loading takes the collection's lock, so a collection in use by another process is left alone
+      const collection = await this.getCollection(name);
+      if (collection.readOnly) {
+        throw new McpError(ErrorCode.InvalidRequest, `Collection "${name}" is in use by another server process and cannot be dropped`);
+      }
+      this.collections.delete(name);
+      await collection.close();
+      await this.closeExecutor(name);
+      await fs.remove(this.collectionDir(name));
+
+      // Every client that had the collection active falls back to the default, not only this one
+      const switched = session.activeCollection === name;
+      for (const other of new Set([session, ...this.servers.values()])) {
+        if (other.activeCollection === name) {
+          other.activeCollection = DEFAULT_COLLECTION;
+        }
+      }
+      this.notifyResourceListChanged();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Dropped collection "${name}".${switched ? ` The active collection is now "${DEFAULT_COLLECTION}".` : ''}`,
+          },
+        ],
+        structuredContent: { name, dropped: true, active: session.activeCollection },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error dropping collection: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  // Schema names are unique across collections, so they can be addressed as query-assistant://schema/{name}
+  private async findRegisteredSchema(name: string): Promise<{ collection: string; schema: QuerySchema } | undefined> {
+    if (!COLLECTION_NAME_PATTERN.test(name)) {
+      return undefined;
+    }
+    for (const collection of await this.listCollectionNames()) {
+      const schema = await readSchema(this.collectionDir(collection), name);
+      if (schema) {
+        return { collection, schema };
+      }
+    }
+    return undefined;
+  }
+
+  // A schema named explicitly, otherwise the one registered for the domain or the whole collection
+  private async resolveSchema(collection: QueryCollection, name?: string, domain?: string): Promise<QuerySchema | undefined> {
+    if (name === undefined) {
+      return findSchemaFor(await readSchemas(collection.directory), domain);
+    }
+    const schema = await readSchema(collection.directory, name);
+    if (!schema) {
+      throw new McpError(ErrorCode.InvalidParams, `Schema "${name}" is not registered in collection "${collection.name}"`);
+    }
+    return schema;
+  }
+
+  private async handleRegisterSchema(args: any, session: Session) {
+    if (!isValidRegisterSchemaArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for register_schema'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      collection.assertWritable();
+
+      if (!COLLECTION_NAME_PATTERN.test(args.name)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'Schema names use lowercase letters, digits, "-" and "_", start with a letter or digit and are at most 64 characters long'
+        );
+      }
+      const errors = validateSchema(args);
+      if (errors.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid schema: ${errors.join('; ')}`);
+      }
+      const existing = await this.findRegisteredSchema(args.name);
+      if (existing && existing.collection !== collection.name) {
+        throw new McpError(ErrorCode.InvalidParams, `Schema "${args.name}" is already registered in collection "${existing.collection}"`);
+      }
+      const sameDomain = (await readSchemas(collection.directory))
+        .find(schema => schema.name !== args.name && schema.domain === args.domain);
+      if (sameDomain) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Schema "${sameDomain.name}" already covers ${args.domain !== undefined ? `domain "${args.domain}"` : 'the whole collection'}`
+        );
+      }
+
+      const schema: QuerySchema = {
+        name: args.name,
+        ...(args.description !== undefined ? { description: args.description } : {}),
+        ...(args.domain !== undefined ? { domain: args.domain } : {}),
+        ...(args.node_labels !== undefined ? { node_labels: args.node_labels } : {}),
+        ...(args.relationship_types !== undefined ? { relationship_types: args.relationship_types } : {}),
+        ...(args.tables !== undefined ? { tables: args.tables } : {}),
+        ...(args.classes !== undefined ? { classes: args.classes } : {}),
+        ...(args.predicates !== undefined ? { predicates: args.predicates } : {}),
+        ...(args.prefixes !== undefined ? { prefixes: args.prefixes } : {}),
+        updated_at: new Date().toISOString(),
+      };
+      await writeSchema(collection.directory, schema);
+      if (existing) {
+        this.notifyResourcesUpdated([`query-assistant://schema/${schema.name}`]);
+      } else {
+        this.notifyResourceListChanged();
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${existing ? 'Replaced' : 'Registered'} schema "${schema.name}" for ${schema.domain !== undefined ? `domain "${schema.domain}" in ` : ''}collection "${collection.name}".\nResource: query-assistant://schema/${schema.name}\n\n${formatSchema(schema)}`,
+          },
+        ],
+        structuredContent: {
+          schema,
+          collection: collection.name,
+          replaced: existing !== undefined,
+          resource: `query-assistant://schema/${schema.name}`,
+        },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error registering schema: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDeleteSchema(args: any, session: Session) {
+    if (!isValidDeleteSchemaArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for delete_schema'
+      );
+    }
+
+    try {
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      collection.assertWritable();
+      if (!COLLECTION_NAME_PATTERN.test(args.name) || !(await deleteSchema(collection.directory, args.name))) {
+        throw new McpError(ErrorCode.InvalidParams, `Schema "${args.name}" is not registered in collection "${collection.name}"`);
+      }
+      this.notifyResourcesUpdated([`query-assistant://schema/${args.name}`]);
+      this.notifyResourceListChanged();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Deleted schema "${args.name}" from collection "${collection.name}".`,
+          },
+        ],
+        structuredContent: { name: args.name, collection: collection.name },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error deleting schema: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
   }
 
-  private async handleFindSimilarQueries(args: any) {
-    if (!isValidFindSimilarArgs(args)) {
+  private async handleCheckQueryAgainstSchema(args: any, session: Session) {
+    if (!isValidCheckSchemaArgs(args)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid arguments for find_similar_queries'
+        'Invalid arguments for check_query_against_schema'
       );
     }
 
     try {
-      const { question, limit = 3, threshold = 0.7 } = args;
-      const similarExamples = await this.findSimilarExamples(question, limit, threshold);
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const formatIssues = (issues: SchemaIssue[]) => issues.map(issue => `   - ${issue.message}`).join('\n');
 
-      if (similarExamples.length === 0) {
+      if (args.query !== undefined || args.id !== undefined) {
+        const example = args.id !== undefined ? collection.trainingData.find(item => item.id === args.id) : undefined;
+        if (args.id !== undefined && !example) {
+          throw new McpError(ErrorCode.InvalidParams, `Training example with ID ${args.id} not found`);
+        }
+        const query = example ? example.query : args.query!;
+        const language = example ? example.language : args.language || detectQueryLanguage(query);
+        const schema = await this.resolveSchema(collection, args.schema, example ? example.metadata?.domain : args.domain);
+        if (!schema) {
+          throw new McpError(ErrorCode.InvalidParams, `No schema registered for collection "${collection.name}". Use register_schema first`);
+        }
+
+        const issues = checkQueryAgainstSchema(query, language, schema, { sqlDialect: SQL_DIALECT });
+        const subject = example ? `Example ${example.id}` : 'The query';
+        const text = issues === undefined
+          ? `${language ? `${language} queries` : 'Queries in an undetected language'} cannot be checked against a schema; only Cypher, SQL and SPARQL are supported.`
+          : issues.length === 0
+            ? `${subject} only uses identifiers known to schema "${schema.name}".`
+            : `${subject} uses ${issues.length} identifiers unknown to schema "${schema.name}":\n${formatIssues(issues)}`;
         return {
-          content: [
-            {
-              type: 'text',
-              text: 'No similar examples found. You may need to add more training data or lower the similarity threshold.',
-            },
-          ],
+          content: [{ type: 'text', text }],
+          structuredContent: {
+            checked: issues === undefined ? 0 : 1,
+            skipped: issues === undefined ? 1 : 0,
+            flagged: issues && issues.length > 0
+              ? [{ ...(example ? { id: example.id } : {}), query, schema: schema.name, issues }]
+              : [],
+          },
         };
       }
 
-      // Format as few-shot examples
-      const fewShotPrompt = similarExamples
-        .map((item, index) => {
-          return `Example ${index + 1} (similarity: ${item.similarity.toFixed(3)}):
-Question: ${item.example.question}
-Query: ${item.example.query}
-${item.example.metadata?.domain ? `Domain: ${item.example.metadata.domain}` : ''}
-${item.example.metadata?.complexity ? `Complexity: ${item.example.metadata.complexity}` : ''}`;
-        })
-        .join('\n\n');
+      // Check every stored example against the schema of its domain
+      const named = args.schema !== undefined ? await this.resolveSchema(collection, args.schema) : undefined;
+      const schemas = named ? [named] : await readSchemas(collection.directory);
+      if (schemas.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `No schema registered for collection "${collection.name}". Use register_schema first`);
+      }
+      const flagged: { example: TrainingExample; schema: QuerySchema; issues: SchemaIssue[] }[] = [];
+      let checked = 0;
+      for (const example of collection.trainingData) {
+        const schema = named || findSchemaFor(schemas, example.metadata?.domain);
+        const issues = schema && checkQueryAgainstSchema(example.query, example.language, schema, { sqlDialect: SQL_DIALECT });
+        if (!issues) {
+          continue;
+        }
+        checked++;
+        if (issues.length > 0) {
+          flagged.push({ example, schema: schema!, issues });
+        }
+      }
 
+      const skipped = collection.trainingData.length - checked;
+      const summary = `Checked ${checked} of ${collection.trainingData.length} training examples${skipped > 0 ? ` (${skipped} skipped: no schema for their domain or language)` : ''}.`;
+      const structuredContent = {
+        checked,
+        skipped,
+        flagged: flagged.map(({ example, schema, issues }) => ({ id: example.id, query: example.query, schema: schema.name, issues })),
+      };
+      if (flagged.length === 0) {
+        return {
+          content: [{ type: 'text', text: `${summary}\nAll checked queries only use known identifiers.` }],
+          structuredContent,
+        };
+      }
+
+      const flaggedList = flagged
+        .map(({ example, schema, issues }, index) => `${index + 1}. ID: ${example.id} (schema: ${schema.name})
+   Question: ${example.question}
+   Query: ${example.query}
+${formatIssues(issues)}`)
+        .join('\n\n');
       return {
         content: [
           {
             type: 'text',
-            text: `Found ${similarExamples.length} similar examples for: "${question}"\n\n${fewShotPrompt}`,
+            text: `${summary}\nFound ${flagged.length} examples using unknown identifiers:\n\n${flaggedList}\n\nFix the queries with 'update_training_example', or the schema with 'register_schema'.`,
           },
         ],
+        structuredContent,
       };
     } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error finding similar queries: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error checking query against schema: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -459,32 +3805,93 @@ ${item.example.metadata?.complexity ? `Complexity: ${item.example.metadata.compl
     }
   }
 
-  private async handleAddTrainingExample(args: any) {
-    if (!isValidAddExampleArgs(args)) {
+  // The executor for a collection, reopened when its configuration changed
+  private async getExecutor(collection: QueryCollection): Promise<QueryExecutor> {
+    const config = await readExecutorConfig(collection.directory);
+    if (!config) {
+      throw new McpError(ErrorCode.InvalidRequest, `No database configured for collection "${collection.name}". Use configure_executor first`);
+    }
+
+    const cached = this.executors.get(collection.name);
+    if (cached && cached.config === JSON.stringify(config)) {
+      return cached.executor;
+    }
+    await this.closeExecutor(collection.name);
+    const executor = createQueryExecutor(config, DATA_DIR);
+    this.executors.set(collection.name, { config: JSON.stringify(config), executor });
+    return executor;
+  }
+
+  private async closeExecutor(collectionName: string) {
+    const cached = this.executors.get(collectionName);
+    this.executors.delete(collectionName);
+    await cached?.executor.close().catch(error => console.error('Error closing query executor:', error));
+  }
+
+  private formatQueryResult(result: QueryResult): string {
+    const formatCell = (value: unknown) => {
+      const text = value === null || value === undefined ? 'NULL' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH)}...` : text;
+    };
+    return [
+      result.columns.join(' | '),
+      ...result.rows.map(row => row.map(formatCell).join(' | ')),
+    ].join('\n');
+  }
+
+  private async handleConfigureExecutor(args: any, session: Session) {
+    if (!isValidConfigureExecutorArgs(args)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid arguments for add_training_example'
+        'Invalid arguments for configure_executor'
       );
     }
 
     try {
-      const { question, query, metadata } = args;
-      const id = await this.addTrainingExample(question, query, metadata);
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      collection.assertWritable();
+
+      if (args.type === 'none') {
+        await writeExecutorConfig(collection.directory, undefined);
+        await this.closeExecutor(collection.name);
+        return {
+          content: [{ type: 'text', text: `Removed the database configuration of collection "${collection.name}".` }],
+          structuredContent: { collection: collection.name },
+        };
+      }
+
+      const config: ExecutorConfig = {
+        type: args.type,
+        ...(args.path !== undefined ? { path: args.path } : {}),
+        ...(args.url !== undefined ? { url: args.url } : {}),
+        ...(args.username !== undefined ? { username: args.username } : {}),
+        ...(args.password_env !== undefined ? { password_env: args.password_env } : {}),
+        ...(args.database !== undefined ? { database: args.database } : {}),
+        ...(args.endpoint !== undefined ? { endpoint: args.endpoint } : {}),
+        ...(args.auth_token_env !== undefined ? { auth_token_env: args.auth_token_env } : {}),
+      };
+      const errors = validateExecutorConfig(config);
+      if (errors.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid executor configuration: ${errors.join('; ')}`);
+      }
+      await writeExecutorConfig(collection.directory, config);
+      const executor = await this.getExecutor(collection);
 
       return {
         content: [
           {
             type: 'text',
-            text: `Successfully added training example with ID: ${id}\nQuestion: ${question}\nQuery: ${query}`,
+            text: `Collection "${collection.name}" now runs ${executor.language} queries against ${executor.describe()}.\nUse 'execute_query' to try a query, or 'verify_training_data' to check the stored examples.`,
           },
         ],
+        structuredContent: { collection: collection.name, type: executor.type, language: executor.language, database: executor.describe() },
       };
     } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error adding training example: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error configuring executor: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -492,101 +3899,55 @@ ${item.example.metadata?.complexity ? `Complexity: ${item.example.metadata.compl
     }
   }
 
-  private async handleListTrainingExamples(args: any) {
-    const limit = args?.limit || 10;
-    const domain = args?.domain;
-
-    let examples = this.trainingData;
-    
-    // Filter by domain if specified
-    if (domain) {
-      examples = examples.filter(ex => ex.metadata?.domain === domain);
+  private async handleExecuteQuery(args: any, session: Session) {
+    if (!isValidExecuteQueryArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for execute_query (pass either query or id)'
+      );
     }
 
-    // Limit results
-    examples = examples.slice(0, limit);
-
-    const examplesList = examples
-      .map((example, index) => {
-        return `${index + 1}. ID: ${example.id}
-   Question: ${example.question}
-   Query: ${example.query}
-   ${example.metadata?.domain ? `Domain: ${example.metadata.domain}` : ''}
-   ${example.metadata?.complexity ? `Complexity: ${example.metadata.complexity}` : ''}
-   Created: ${example.metadata?.created_at || 'Unknown'}`;
-      })
-      .join('\n\n');
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Training Examples (showing ${examples.length} of ${this.trainingData.length} total):\n\n${examplesList}`,
-        },
-      ],
-    };
-  }
-
-  private async handleFindDuplicates(args: any) {
     try {
-      const duplicateGroups: { [key: string]: TrainingExample[] } = {};
-      
-      // Group examples by normalized question + query
-      this.trainingData.forEach(example => {
-        const key = `${example.question.toLowerCase().trim()}|||${example.query.toLowerCase().trim()}`;
-        if (!duplicateGroups[key]) {
-          duplicateGroups[key] = [];
-        }
-        duplicateGroups[key].push(example);
-      });
-
-      // Find groups with more than one example (duplicates)
-      const duplicates = Object.values(duplicateGroups).filter(group => group.length > 1);
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      const example = args.id !== undefined ? collection.trainingData.find(item => item.id === args.id) : undefined;
+      if (args.id !== undefined && !example) {
+        throw new McpError(ErrorCode.InvalidParams, `Training example with ID ${args.id} not found`);
+      }
+      const query = example ? example.query : args.query!;
+      const language = example ? example.language : args.language || detectQueryLanguage(query);
 
-      if (duplicates.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'No duplicate training examples found.',
-            },
-          ],
-        };
+      const executor = await this.getExecutor(collection);
+      if (language !== undefined && language !== executor.language) {
+        throw new McpError(ErrorCode.InvalidParams, `The ${executor.type} database runs ${executor.language} queries, not ${language}`);
       }
 
-      let duplicateCount = 0;
-      const duplicatesList = duplicates
-        .map((group, groupIndex) => {
-          duplicateCount += group.length - 1; // Count extras (keep first, remove rest)
-          const examples = group
-            .map((example, index) => {
-              return `   ${index === 0 ? '[KEEP]' : '[DUPLICATE]'} ID: ${example.id}
-      Created: ${example.metadata?.created_at || 'Unknown'}`;
-            })
-            .join('\n');
-          
-          return `Duplicate Group ${groupIndex + 1}:
-   Question: "${group[0].question}"
-   Query: "${group[0].query}"
-   Examples:
-${examples}`;
-        })
-        .join('\n\n');
+      const result = await executor.execute(query, {
+        maxRows: args.max_rows ?? DEFAULT_RESULT_ROWS,
+        timeoutMs: args.timeout_ms ?? DEFAULT_QUERY_TIMEOUT_MS,
+      });
+      const summary = `${result.truncated ? `First ${result.rows.length}` : result.rows.length} rows from ${executor.describe()} in ${result.elapsedMs} ms`;
 
       return {
         content: [
           {
             type: 'text',
-            text: `Found ${duplicates.length} duplicate groups with ${duplicateCount} duplicate entries:\n\n${duplicatesList}\n\nUse 'remove_duplicates' tool with confirm=true to remove duplicates.`,
+            text: `${summary}${result.truncated ? ' (more rows available, raise max_rows to see them)' : ''}:\n\n${this.formatQueryResult(result)}`,
           },
         ],
+        structuredContent: {
+          database: executor.describe(),
+          columns: result.columns,
+          rows: result.rows,
+          truncated: result.truncated,
+          elapsed_ms: result.elapsedMs,
+        },
       };
     } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error finding duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error executing query: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -594,95 +3955,90 @@ ${examples}`;
     }
   }
 
-  private async handleRemoveDuplicates(args: any) {
+  private async handleVerifyTrainingData(args: any, session: Session) {
+    if (!isValidVerifyArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for verify_training_data'
+      );
+    }
+
     try {
-      const confirm = args?.confirm === true;
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      collection.assertWritable();
+      const executor = await this.getExecutor(collection);
 
-      if (!confirm) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'This operation will remove duplicate training examples. Set confirm=true to proceed.\nUse find_duplicates first to see what will be removed.',
-            },
-          ],
-        };
+      const notFound = (args.ids || []).filter(id => !collection.trainingData.some(example => example.id === id));
+      if (notFound.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Training examples not found: ${notFound.join(', ')}`);
       }
+      const selected = args.ids ? collection.trainingData.filter(example => args.ids!.includes(example.id)) : collection.trainingData;
+      const runnable = selected.filter(example => example.language === executor.language);
 
-      const duplicateGroups: { [key: string]: TrainingExample[] } = {};
-      
-      // Group examples by normalized question + query
-      this.trainingData.forEach(example => {
-        const key = `${example.question.toLowerCase().trim()}|||${example.query.toLowerCase().trim()}`;
-        if (!duplicateGroups[key]) {
-          duplicateGroups[key] = [];
+      // Queries run one at a time, so a slow database is not flooded; row counts stop at MAX_RESULT_ROWS
+      const results = new Map<string, ExampleVerification>();
+      for (const example of runnable) {
+        const verifiedAt = new Date().toISOString();
+        try {
+          const result = await executor.execute(example.query, {
+            maxRows: MAX_RESULT_ROWS,
+            timeoutMs: args.timeout_ms ?? DEFAULT_QUERY_TIMEOUT_MS,
+          });
+          const empty = args.require_rows === true && result.rows.length === 0;
+          results.set(example.id, {
+            status: empty ? 'fail' : 'pass',
+            row_count: result.rows.length,
+            ...(empty ? { error: 'Query returned no rows' } : {}),
+            verified_at: verifiedAt,
+          });
+        } catch (error) {
+          results.set(example.id, {
+            status: 'fail',
+            error: error instanceof Error ? error.message : String(error),
+            verified_at: verifiedAt,
+          });
         }
-        duplicateGroups[key].push(example);
-      });
-
-      // Find duplicates and collect IDs to remove
-      const idsToRemove: string[] = [];
-      const duplicateGroups_filtered = Object.values(duplicateGroups).filter(group => group.length > 1);
-      
-      duplicateGroups_filtered.forEach(group => {
-        // Sort by creation date to keep the oldest one
-        group.sort((a, b) => {
-          const dateA = new Date(a.metadata?.created_at || '1970-01-01').getTime();
-          const dateB = new Date(b.metadata?.created_at || '1970-01-01').getTime();
-          return dateA - dateB;
-        });
-        
-        // Keep the first (oldest), remove the rest
-        for (let i = 1; i < group.length; i++) {
-          idsToRemove.push(group[i].id);
-        }
-      });
+      }
+      await collection.recordVerifications(results);
 
-      if (idsToRemove.length === 0) {
+      const failed = runnable.filter(example => results.get(example.id)?.status === 'fail');
+      const skipped = selected.length - runnable.length;
+      const summary = `Ran ${runnable.length} of ${selected.length} training examples against ${executor.describe()}${skipped > 0 ? ` (${skipped} skipped: not ${executor.language})` : ''}: ${runnable.length - failed.length} passed, ${failed.length} failed.`;
+      const structuredContent = {
+        database: executor.describe(),
+        passed: runnable.length - failed.length,
+        failed: failed.length,
+        skipped,
+        results: [...results].map(([id, verification]) => ({ id, ...verification })),
+      };
+      if (failed.length === 0) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: 'No duplicates found to remove.',
-            },
-          ],
+          content: [{ type: 'text', text: summary }],
+          structuredContent,
         };
       }
 
-      // Remove duplicates from training data
-      const originalCount = this.trainingData.length;
-      this.trainingData = this.trainingData.filter(example => !idsToRemove.includes(example.id));
-
-      // Rebuild vector index with remaining data
-      this.vectorIndex = new HierarchicalNSW('cosine', EMBEDDING_DIMENSION);
-      this.vectorIndex.initIndex(MAX_ELEMENTS);
-      this.idToIndex.clear();
-
-      // Re-add all remaining examples to vector index
-      for (let i = 0; i < this.trainingData.length; i++) {
-        const example = this.trainingData[i];
-        const embedding = await this.generateEmbedding(example.question);
-        this.vectorIndex.addPoint(embedding, i);
-        this.idToIndex.set(example.id, i);
-      }
-
-      // Save updated data
-      await this.saveData();
-
+      const failedList = failed
+        .map((example, index) => `${index + 1}. ID: ${example.id}
+   Question: ${example.question}
+   Query: ${example.query}
+   Error: ${results.get(example.id)!.error}`)
+        .join('\n\n');
       return {
         content: [
           {
             type: 'text',
-            text: `Successfully removed ${idsToRemove.length} duplicate examples.\nOriginal count: ${originalCount}\nNew count: ${this.trainingData.length}\nRemoved IDs: ${idsToRemove.join(', ')}`,
+            text: `${summary}\n\nFailed examples:\n\n${failedList}\n\nUse 'update_training_example' to fix them or 'delete_training_example' to remove them.`,
           },
         ],
+        structuredContent,
       };
     } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error removing duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error verifying training data: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -690,47 +4046,413 @@ ${examples}`;
     }
   }
 
-  private setupResourceHandlers() {
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
-        {
-          uri: 'query-assistant://training-data',
-          name: 'Training Dataset',
+  private async listSchemaResources() {
+    const resources = [];
+    for (const collection of await this.listCollectionNames()) {
+      for (const schema of await readSchemas(this.collectionDir(collection))) {
+        resources.push({
+          uri: `query-assistant://schema/${schema.name}`,
+          name: `Schema ${schema.name}`,
           mimeType: 'application/json',
-          description: 'Complete training dataset of question-query pairs',
-        },
-      ],
-    }));
+          description: schema.description ||
+            `Labels, tables and predicates known in ${schema.domain !== undefined ? `domain "${schema.domain}" of ` : ''}collection "${collection}"`,
+        });
+      }
+    }
+    return resources;
+  }
+
+  private setupResourceHandlers(server: Server, session: Session) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const collections = await this.listCollectionNames();
+      return {
+        resources: [
+          {
+            uri: 'query-assistant://training-data',
+            name: 'Training Dataset',
+            mimeType: 'application/json',
+            description: 'Complete training dataset of question-query pairs in the default collection',
+          },
+          {
+            uri: 'query-assistant://stats',
+            name: 'Statistics',
+            mimeType: 'application/json',
+            description: 'Example counts per language, domain and complexity, index health, embedding cache and versions of the default collection',
+          },
+          ...collections.map(name => ({
+            uri: `query-assistant://collections/${name}/training-data`,
+            name: `Training Dataset (${name})`,
+            mimeType: 'application/json',
+            description: `Complete training dataset of question-query pairs in collection "${name}"`,
+          })),
+          ...collections.map(name => ({
+            uri: `query-assistant://collections/${name}/stats`,
+            name: `Statistics (${name})`,
+            mimeType: 'application/json',
+            description: `Example counts, index health, embedding cache and versions of collection "${name}"`,
+          })),
+          ...(await this.listSchemaResources()),
+        ],
+      };
+    });
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      if (request.params.uri === 'query-assistant://training-data') {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const schemaName = request.params.uri.match(SCHEMA_RESOURCE_PATTERN)?.[1];
+      const registered = schemaName !== undefined ? await this.findRegisteredSchema(schemaName) : undefined;
+      if (registered) {
         return {
           contents: [
             {
               uri: request.params.uri,
               mimeType: 'application/json',
-              text: JSON.stringify(this.trainingData, null, 2),
+              text: JSON.stringify({ collection: registered.collection, ...registered.schema }, null, 2),
             },
           ],
         };
       }
 
+      const resource = parseCollectionResource(request.params.uri);
+      if (resource && await this.collectionExists(resource.collection)) {
+        const data = await this.readCollectionResource(await this.getCollection(resource.collection), resource);
+        if (data !== undefined) {
+          return {
+            contents: [
+              {
+                uri: request.params.uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(data, null, 2),
+              },
+            ],
+          };
+        }
+      }
+
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Unknown resource: ${request.params.uri}`
       );
     });
+
+    // Examples and domains that do not exist yet can be subscribed to, and are announced once they do
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (!parseCollectionResource(uri) && !SCHEMA_RESOURCE_PATTERN.test(uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      session.subscriptions.add(uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      session.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private async readCollectionResource(collection: QueryCollection, resource: CollectionResource) {
+    switch (resource.kind) {
+      case 'training-data':
+        return collection.trainingData;
+      case 'stats':
+        return (await this.collectionStats(collection)).structuredContent;
+      case 'example':
+        return collection.trainingData.find(example => example.id === resource.id);
+      case 'domain':
+        return collection.trainingData.filter(example => example.metadata?.domain === resource.domain);
+    }
+  }
+
+  // Statistics change with every write; the dataset, examples and domains only with the examples involved
+  private notifyCollectionChange(collection: string, events: ExampleEvent[]) {
+    const paths = new Set(['stats']);
+    for (const event of events) {
+      paths.add('training-data');
+      paths.add(`examples/${encodeURIComponent(event.id)}`);
+      for (const example of [event.before, event.after]) {
+        if (example?.metadata?.domain) {
+          paths.add(`domains/${encodeURIComponent(example.metadata.domain)}`);
+        }
+      }
+    }
+    this.notifyResourcesUpdated([...paths].flatMap(resourcePath => collectionResourceUris(collection, resourcePath)));
+  }
+
+  private notifyResourcesUpdated(uris: string[]) {
+    for (const [server, session] of this.servers) {
+      for (const uri of uris.filter(uri => session.subscriptions.has(uri))) {
+        server.sendResourceUpdated({ uri }).catch(error => console.error('[MCP Error]', error));
+      }
+    }
+  }
+
+  // Collections and schemas are the listed resources that come and go
+  private notifyResourceListChanged() {
+    for (const server of this.servers.keys()) {
+      server.sendResourceListChanged().catch(error => console.error('[MCP Error]', error));
+    }
+  }
+
+  private setupPromptHandlers(server: Server, session: Session) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name } = request.params;
+      if (!isPromptName(name)) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown prompt: ${name}`);
+      }
+
+      const args = request.params.arguments || {};
+      const limit = args.limit === undefined ? DEFAULT_PROMPT_EXAMPLES : Number(args.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PROMPT_EXAMPLES) {
+        throw new McpError(ErrorCode.InvalidParams, `limit must be an integer between 1 and ${MAX_PROMPT_EXAMPLES}`);
+      }
+      if (args.language !== undefined && !isQueryLanguage(args.language)) {
+        throw new McpError(ErrorCode.InvalidParams, `language must be one of: ${QUERY_LANGUAGES.join(', ')}`);
+      }
+      const collection = await this.getCollection(args.collection ?? session.activeCollection);
+      // The schema argument may name a registered schema or hold the schema itself
+      const registeredSchema = args.schema === undefined || COLLECTION_NAME_PATTERN.test(args.schema)
+        ? await this.resolveSchema(collection, args.schema).catch(() => undefined)
+        : undefined;
+      const schema = registeredSchema ? formatSchema(registeredSchema) : args.schema;
+
+      // Few-shot turns mostly teach conventions (labels, property names, style), so the closest
+      // examples are used regardless of how similar they are
+      switch (name) {
+        case 'generate_query': {
+          if (!args.question || !isQueryLanguage(args.language)) {
+            throw new McpError(ErrorCode.InvalidParams, 'generate_query needs a question and a language');
+          }
+          const examples = await collection.findSimilarExamples(args.question, limit, 0, { language: args.language });
+          return {
+            description: `Generate a ${args.language} query with ${examples.length} similar examples from collection "${collection.name}"`,
+            messages: buildGenerateQueryMessages(args.question, args.language, examples, schema),
+          };
+        }
+        case 'explain_query': {
+          if (!args.query) {
+            throw new McpError(ErrorCode.InvalidParams, 'explain_query needs a query');
+          }
+          const language = (args.language as QueryLanguage | undefined) || detectQueryLanguage(args.query);
+          // Only the query text is known, so match it lexically against the stored queries
+          const examples = await collection.findSimilarExamples(args.query, limit, 0, { language }, { mode: 'lexical', includeQueryText: true });
+          return {
+            description: `Explain a ${language || 'query'} query with ${examples.length} similar examples from collection "${collection.name}"`,
+            messages: buildExplainQueryMessages(args.query, language, examples, schema),
+          };
+        }
+        case 'fix_query': {
+          if (!args.query) {
+            throw new McpError(ErrorCode.InvalidParams, 'fix_query needs a query');
+          }
+          const language = (args.language as QueryLanguage | undefined) || detectQueryLanguage(args.query);
+          const syntaxErrors = validateQuerySyntax(args.query, language, { sqlDialect: SQL_DIALECT });
+          const error = args.error || (syntaxErrors && syntaxErrors.length > 0 ? `Syntax error at ${formatSyntaxErrors(syntaxErrors)}` : undefined);
+          const examples = args.question
+            ? await collection.findSimilarExamples(args.question, limit, 0, { language })
+            : await collection.findSimilarExamples(args.query, limit, 0, { language }, { mode: 'lexical', includeQueryText: true });
+          return {
+            description: `Fix a ${language || 'query'} query with ${examples.length} similar examples from collection "${collection.name}"`,
+            messages: buildFixQueryMessages(args.query, language, examples, { question: args.question, error, schema }),
+          };
+        }
+      }
+    });
   }
 
   async run() {
-    // Initialize vector store
-    await this.initializeVectorStore();
+    // Load the default collection up front so configuration problems stop the server at startup
+    await this.getCollection(DEFAULT_COLLECTION);
+
+    if (TRANSPORT === 'http') {
+      await startHttpServer({
+        host: HTTP_HOST,
+        port: HTTP_PORT,
+        authToken: AUTH_TOKEN,
+        readOnlyToken: READ_ONLY_TOKEN,
+        createServer: access => this.createServer(access),
+      });
+      if (!AUTH_TOKEN && !READ_ONLY_TOKEN) {
+        console.error(`Warning: no --auth-token configured, so anyone who can reach ${HTTP_HOST}:${HTTP_PORT} can change the training data`);
+      }
+      console.error(`Query Assistant MCP server running on http://${HTTP_HOST}:${HTTP_PORT}/mcp (legacy SSE: /sse)`);
+      return;
+    }
 
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer('read-write').connect(transport);
     console.error('Query Assistant MCP server running on stdio');
   }
+
+  // Command line equivalent of evaluate_retrieval (--evaluate <file> or --leave-one-out): print the report and exit
+  async runEvaluation() {
+    try {
+      const collection = await this.getCollection(cliArgs.collection || DEFAULT_COLLECTION);
+      const { testSet, name } = await this.loadTestSet(collection, cliArgs.evaluate !== undefined ? path.resolve(cliArgs.evaluate) : undefined);
+      console.log((await this.evaluate(collection, testSet, name)).text);
+    } finally {
+      await this.close();
+    }
+  }
+
+  // Offline administration (see CLI_USAGE): run one command against a collection, print the result and exit
+  async runCommand(command: Exclude<CliCommand, 'serve'>) {
+    const session: Session = { access: 'read-write', activeCollection: cliArgs.collection || DEFAULT_COLLECTION, subscriptions: new Set() };
+    try {
+      const result: CommandResult = await this.commandResult(command, session);
+      printResult(result, cliArgs.json === true);
+      if (result.isError) {
+        process.exitCode = 1;
+      }
+    } finally {
+      await this.close();
+    }
+  }
+
+  // Commands reuse the tool handlers, so they validate and report exactly like the tools do
+  private async commandResult(command: Exclude<CliCommand, 'serve'>, session: Session): Promise<CommandResult> {
+    const operands = cliArgs.positionals.slice(1);
+    switch (command) {
+      case 'import': {
+        if (operands.length !== 1) {
+          throw new Error('import needs one file: query-assistant import <file>');
+        }
+        return this.handleImportTrainingExamples({
+          format: resolveDataFormat(cliArgs.format, operands[0]),
+          path: operands[0],
+          dry_run: cliArgs.dryRun,
+        }, session, file => path.resolve(file));
+      }
+      case 'export':
+        return this.handleExportTrainingExamples({
+          format: resolveDataFormat(cliArgs.format, cliArgs.output, 'jsonl'),
+          path: cliArgs.output,
+          domain: cliArgs.domain,
+        }, session, file => path.resolve(file));
+      case 'list':
+        return this.handleListTrainingExamples({
+          limit: parseNumberOption('--limit', cliArgs.limit, true),
+          cursor: cliArgs.cursor,
+          search: cliArgs.search,
+          regex: cliArgs.regex,
+          domain: cliArgs.domain,
+          language: parseChoiceOption('--language', cliArgs.language, QUERY_LANGUAGES),
+          complexity: parseChoiceOption('--complexity', cliArgs.complexity, COMPLEXITY_LEVELS),
+          sort: parseChoiceOption('--sort', cliArgs.sort, LIST_SORT_FIELDS),
+          order: parseChoiceOption('--order', cliArgs.order, SORT_ORDERS),
+        }, session);
+      case 'search': {
+        if (operands.length === 0) {
+          throw new Error('search needs a question: query-assistant search "<question>"');
+        }
+        return this.handleFindSimilarQueries({
+          question: operands.join(' '),
+          limit: parseNumberOption('--limit', cliArgs.limit, true),
+          threshold: parseNumberOption('--threshold', cliArgs.threshold),
+          mode: parseChoiceOption('--mode', cliArgs.mode, SEARCH_MODES),
+          language: parseChoiceOption('--language', cliArgs.language, QUERY_LANGUAGES),
+          domain: cliArgs.domain,
+        }, session);
+      }
+      case 'stats':
+        return this.collectionStats(await this.getCollection(session.activeCollection));
+      case 'dedupe':
+        return cliArgs.dryRun
+          ? this.handleFindDuplicates({}, session)
+          : this.handleRemoveDuplicates({ confirm: true }, session);
+      case 'reindex':
+        return this.reindex(await this.getCollection(session.activeCollection));
+    }
+  }
+
+  private async collectionStats(collection: QueryCollection): Promise<CommandResult> {
+    const examples = collection.trainingData;
+    const countBy = (value: (example: TrainingExample) => string | undefined) => {
+      const counts: { [key: string]: number } = {};
+      for (const example of examples) {
+        const key = value(example);
+        if (key !== undefined) {
+          counts[key] = (counts[key] || 0) + 1;
+        }
+      }
+      return counts;
+    };
+    const formatCounts = (counts: { [key: string]: number }) =>
+      Object.entries(counts).map(([key, count]) => `${key} ${count}`).join(', ') || 'none';
+
+    const languages = countBy(example => example.language);
+    const domains = countBy(example => example.metadata?.domain);
+    const complexity = countBy(example => example.metadata?.complexity);
+    const report = collection.checkIndex();
+    const problems = collection.indexHasProblems(report) ? collection.describeIndexProblems(report) : [];
+    const cache = await collection.embeddings.stats();
+    const versions = await collection.versions();
+
+    const lines = [
+      `Collection: ${collection.name}${collection.readOnly ? ' (read-only)' : ''}`,
+      `Training examples: ${examples.length}`,
+      `Languages: ${formatCounts(languages)}`,
+      `Domains: ${formatCounts(domains)}`,
+      `Complexity: ${formatCounts(complexity)}`,
+      `Vector index: ${problems.length === 0 ? 'consistent' : `out of sync (${problems.join('; ')})`}, ${report.indexedCount} vectors at dimension ${report.indexDimension}`,
+      `Embedding cache: ${collection.embeddings.provider}/${collection.embeddings.model}, ${cache.entries} entries, ${(cache.sizeBytes / 1024).toFixed(1)} KB`,
+      `Versions: ${versions.length}${versions.length > 0 ? ` (latest ${formatVersion(versions[0])})` : ''}`,
+    ];
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: {
+        collection: collection.name,
+        read_only: collection.readOnly,
+        examples: examples.length,
+        languages,
+        domains,
+        complexity,
+        index: { consistent: problems.length === 0, problems, ...indexReportOutput(report) },
+        cache: {
+          provider: collection.embeddings.provider,
+          model: collection.embeddings.model,
+          entries: cache.entries,
+          size_bytes: cache.sizeBytes,
+        },
+        versions: versions.map(versionOutput),
+      },
+    };
+  }
+
+  private async reindex(collection: QueryCollection): Promise<CommandResult> {
+    const missesBefore = (await collection.embeddings.stats()).misses;
+    await collection.reindex();
+    const embedded = (await collection.embeddings.stats()).misses - missesBefore;
+    const report = collection.checkIndex();
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Rebuilt the vector index of collection "${collection.name}" with ${report.indexedCount} vectors for ${report.exampleCount} examples (${embedded} embedded by ${collection.embeddings.provider}, the rest from the cache)`,
+        },
+      ],
+      structuredContent: { collection: collection.name, embedded, report: indexReportOutput(report) },
+      isError: collection.indexHasProblems(report),
+    };
+  }
 }
 
 const server = new queryAssistant();
-server.run().catch(console.error);
+const reportFailure = (error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+};
+if (cliArgs.help) {
+  console.log(CLI_USAGE);
+} else if (!isCliCommand(COMMAND)) {
+  console.error(`Unknown command "${COMMAND}"\n\n${CLI_USAGE}`);
+  process.exitCode = 1;
+} else if (COMMAND !== 'serve') {
+  server.runCommand(COMMAND).catch(reportFailure);
+} else if (cliArgs.evaluate !== undefined || cliArgs.leaveOneOut) {
+  server.runEvaluation().catch(reportFailure);
+} else {
+  server.run().catch(console.error);
+}
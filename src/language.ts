@@ -0,0 +1,50 @@
+export type QueryLanguage = 'cypher' | 'sparql' | 'sql' | 'gremlin' | 'graphql';
+
+export const QUERY_LANGUAGES: QueryLanguage[] = ['cypher', 'sparql', 'sql', 'gremlin', 'graphql'];
+
+export const isQueryLanguage = (value: any): value is QueryLanguage => QUERY_LANGUAGES.includes(value);
+
+// Ordered from the most to the least distinctive syntax, since e.g. SPARQL and SQL both use SELECT
+const LANGUAGE_PATTERNS: { language: QueryLanguage; patterns: RegExp[] }[] = [
+  {
+    language: 'sparql',
+    patterns: [
+      /^\s*(PREFIX|BASE)\s/i,
+      /\b(SELECT|ASK|CONSTRUCT|DESCRIBE)\b[\s\S]*\bWHERE\s*\{/i,
+      /^\s*(SELECT|ASK)\b[\s\S]*\{[\s\S]*\?\w+/i,
+    ],
+  },
+  {
+    language: 'gremlin',
+    patterns: [/^\s*g\.(V|E|addV|addE|inject)\s*\(/],
+  },
+  {
+    language: 'cypher',
+    patterns: [
+      /^\s*(OPTIONAL\s+MATCH|MATCH|MERGE|UNWIND|CALL)\b/i,
+      /^\s*CREATE\s*\(/i,
+      /\)\s*<?-\s*\[[^\]]*\]\s*->?\s*\(/,
+      /\bMATCH\b[\s\S]*\bRETURN\b/i,
+    ],
+  },
+  {
+    language: 'graphql',
+    patterns: [/^\s*(query|mutation|subscription)\b[^{]*\{/, /^\s*\{\s*\w+[\s\S]*\}\s*$/],
+  },
+  {
+    language: 'sql',
+    patterns: [
+      /^\s*SELECT\b/i,
+      /^\s*WITH\b[\s\S]*\bAS\s*\(/i,
+      /^\s*INSERT\s+INTO\b/i,
+      /^\s*UPDATE\b[\s\S]*\bSET\b/i,
+      /^\s*DELETE\s+FROM\b/i,
+      /^\s*(CREATE|ALTER|DROP)\s+(TABLE|VIEW|INDEX)\b/i,
+    ],
+  },
+];
+
+// Guess the query language from its syntax; returns undefined when nothing matches
+export function detectQueryLanguage(query: string): QueryLanguage | undefined {
+  return LANGUAGE_PATTERNS.find(({ patterns }) => patterns.some(pattern => pattern.test(query)))?.language;
+}
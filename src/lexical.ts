@@ -0,0 +1,113 @@
+// In-memory BM25 index used for lexical retrieval next to the HNSW vector index
+
+export interface LexicalHit {
+  id: string;
+  score: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'give', 'how', 'i', 'in', 'is', 'it',
+  'list', 'me', 'of', 'on', 'or', 'show', 'that', 'the', 'their', 'to', 'what', 'which', 'with', 'all',
+]);
+
+// Strip plural endings so "CDEs" matches "CDE" and "orders" matches "order"
+const stem = (token: string) =>
+  token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+
+// Lowercased word tokens; identifiers like `cde.layer` or `order_id` are split on punctuation
+// but short acronyms such as "CDE" are kept, since they are often the most telling terms
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+export class Bm25Index {
+  private documents: Map<string, Map<string, number>> = new Map(); // id -> term frequencies
+  private lengths: Map<string, number> = new Map();
+  private documentFrequency: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  get size() {
+    return this.documents.size;
+  }
+
+  clear() {
+    this.documents.clear();
+    this.lengths.clear();
+    this.documentFrequency.clear();
+    this.totalLength = 0;
+  }
+
+  // Add or replace a document
+  add(id: string, text: string) {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+    frequencies.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+
+    this.documents.set(id, frequencies);
+    this.lengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string) {
+    const frequencies = this.documents.get(id);
+    if (!frequencies) {
+      return;
+    }
+
+    frequencies.forEach((_, term) => {
+      const count = this.documentFrequency.get(term)! - 1;
+      if (count === 0) {
+        this.documentFrequency.delete(term);
+      } else {
+        this.documentFrequency.set(term, count);
+      }
+    });
+    this.totalLength -= this.lengths.get(id)!;
+    this.documents.delete(id);
+    this.lengths.delete(id);
+  }
+
+  // Score every document sharing at least one term with the query, best first
+  search(query: string, limit: number, filter?: (id: string) => boolean): LexicalHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const hits: LexicalHit[] = [];
+
+    this.documents.forEach((frequencies, id) => {
+      if (filter && !filter(id)) {
+        return;
+      }
+
+      const length = this.lengths.get(id)!;
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const documentFrequency = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength)));
+      }
+
+      if (score > 0) {
+        hits.push({ id, score });
+      }
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
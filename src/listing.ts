@@ -0,0 +1,147 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import vm from 'vm';
+import { matchesFilters } from './filters.js';
+import { SearchFilters, TrainingExample } from './types.js';
+
+export type ListSortField = 'created_at' | 'domain' | 'usage';
+export type SortOrder = 'asc' | 'desc';
+
+export const LIST_SORT_FIELDS: ListSortField[] = ['created_at', 'domain', 'usage'];
+export const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+export const MAX_LIST_LIMIT = 100;
+export const MAX_SEARCH_PATTERN_LENGTH = 200;
+// Regex searches run with a time limit, so a pattern that backtracks catastrophically fails its own
+// listing instead of stalling every client of the server
+export const REGEX_SEARCH_TIMEOUT_MS = 1000;
+
+export interface ListOptions {
+  filters: SearchFilters;
+  // Matched case-insensitively against the question, its alternate phrasings and the query
+  search?: string;
+  regex?: boolean;
+  sort: ListSortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+export interface ExamplePage {
+  examples: TrainingExample[];
+  // Examples passing the filters and search, on all pages
+  matched: number;
+  nextCursor?: string;
+}
+
+// The position of the last example of a page. Pages continue after the position rather than at an
+// offset, so examples added or removed in between do not shift the following pages.
+interface CursorPosition {
+  sort: ListSortField;
+  order: SortOrder;
+  key: string | number;
+  id: string;
+}
+
+// Feedback outcomes recorded for the example with record_feedback
+export const usageCount = (example: TrainingExample) => {
+  const feedback = example.metadata?.feedback;
+  return feedback ? feedback.helpful + feedback.not_helpful + feedback.corrected : 0;
+};
+
+function sortKey(example: TrainingExample, sort: ListSortField): string | number {
+  switch (sort) {
+    case 'created_at': {
+      const created = Date.parse(example.metadata?.created_at ?? '');
+      return isNaN(created) ? 0 : created;
+    }
+    case 'domain':
+      return example.metadata?.domain ?? '';
+    case 'usage':
+      return usageCount(example);
+  }
+}
+
+const compareValues = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Sort key first, the example ID breaks ties, so every example has a unique position
+function comparePositions(a: { key: string | number; id: string }, b: { key: string | number; id: string }, order: SortOrder) {
+  const compared = compareValues(a.key, b.key) || compareValues(a.id, b.id);
+  return order === 'asc' ? compared : -compared;
+}
+
+const searchedTexts = (example: TrainingExample) => [example.question, ...(example.alternate_questions || []), example.query];
+
+// Throws on an invalid pattern, so callers can check a search before using it
+export function searchMatcher(search: string, regex: boolean): (examples: TrainingExample[]) => TrainingExample[] {
+  if (regex) {
+    if (search.length > MAX_SEARCH_PATTERN_LENGTH) {
+      throw new Error(`longer than ${MAX_SEARCH_PATTERN_LENGTH} characters`);
+    }
+    const pattern = new RegExp(search, 'i');
+    return examples => {
+      // The VM's timeout interrupts a pattern even in the middle of a single match
+      const context = vm.createContext({ pattern, texts: examples.map(searchedTexts) });
+      let matched: boolean[];
+      try {
+        matched = vm.runInContext('texts.map(group => group.some(text => pattern.test(text)))', context, {
+          timeout: REGEX_SEARCH_TIMEOUT_MS,
+        });
+      } catch (error: any) {
+        if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `The search pattern ran for more than ${REGEX_SEARCH_TIMEOUT_MS} ms; simplify it`
+          );
+        }
+        throw error;
+      }
+      return examples.filter((_, index) => matched[index]);
+    };
+  }
+  const needle = search.toLowerCase();
+  return examples => examples.filter(example => searchedTexts(example).some(text => text.toLowerCase().includes(needle)));
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: ListSortField, order: SortOrder): CursorPosition {
+  let position: CursorPosition;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  if (typeof position?.id !== 'string' || (typeof position.key !== 'string' && typeof position.key !== 'number')) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  if (position.sort !== sort || position.order !== order) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `The cursor belongs to a listing sorted by ${position.sort} (${position.order}); pass the same sort and order to continue it`
+    );
+  }
+  return position;
+}
+
+// One page of the examples passing the filters and search, in the requested order
+export function listExamples(examples: TrainingExample[], options: ListOptions): ExamplePage {
+  const filtered = examples.filter(example => matchesFilters(example, options.filters));
+  const searched = options.search !== undefined ? searchMatcher(options.search, options.regex === true)(filtered) : filtered;
+  const positioned = searched
+    .map(example => ({ example, key: sortKey(example, options.sort), id: example.id }))
+    .sort((a, b) => comparePositions(a, b, options.order));
+
+  const after = options.cursor !== undefined ? decodeCursor(options.cursor, options.sort, options.order) : undefined;
+  const remaining = after ? positioned.filter(item => comparePositions(item, after, options.order) > 0) : positioned;
+  const page = remaining.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    examples: page.map(item => item.example),
+    matched: positioned.length,
+    nextCursor: remaining.length > page.length
+      ? encodeCursor({ sort: options.sort, order: options.order, key: last.key, id: last.id })
+      : undefined,
+  };
+}
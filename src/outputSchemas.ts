@@ -0,0 +1,532 @@
+// JSON Schemas of the structuredContent each tool returns next to its text. Clients that validate
+// tool results (the SDK client does) check successful results against these; error results carry text only.
+import { QUERY_LANGUAGES } from './language.js';
+import { SEARCH_MODES, TEMPLATE_PARAMETER_TYPES } from './types.js';
+
+const STRING_ARRAY = { type: 'array', items: { type: 'string' } };
+
+const METADATA = {
+  type: 'object',
+  description: 'domain, complexity, tags, created_at, updated_at, verification and feedback, when set',
+  additionalProperties: true,
+};
+
+const TEMPLATE_VALUE = { type: ['string', 'number', 'boolean'] };
+
+const TEMPLATE = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', description: 'The query with {{name}} slots' },
+    parameters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: TEMPLATE_PARAMETER_TYPES },
+          example_value: TEMPLATE_VALUE,
+        },
+        required: ['name', 'type', 'example_value'],
+      },
+    },
+  },
+  required: ['query', 'parameters'],
+};
+
+const EXAMPLE_PROPERTIES = {
+  id: { type: 'string' },
+  question: { type: 'string' },
+  query: { type: 'string' },
+  language: { type: 'string', enum: QUERY_LANGUAGES },
+  alternate_questions: STRING_ARRAY,
+  template: TEMPLATE,
+  metadata: METADATA,
+};
+
+const EXAMPLE = {
+  type: 'object',
+  properties: EXAMPLE_PROPERTIES,
+  required: ['id', 'question', 'query'],
+};
+
+const SIMILAR_EXAMPLE = {
+  type: 'object',
+  properties: {
+    ...EXAMPLE_PROPERTIES,
+    similarity: { type: 'number', description: 'Ranking score of the search mode' },
+    vector_similarity: { type: 'number' },
+    lexical_score: { type: 'number' },
+    matched_question: { type: 'string', description: 'The question or alternate question that matched' },
+    feedback_score: { type: 'number', description: 'Net feedback in [-1, 1]' },
+  },
+  required: ['id', 'question', 'query', 'similarity'],
+};
+
+const LOCATED_ERROR = {
+  type: 'object',
+  properties: { line: { type: 'number' }, column: { type: 'number' }, message: { type: 'string' } },
+  required: ['line', 'column', 'message'],
+};
+
+const SCHEMA_ISSUE = {
+  type: 'object',
+  properties: { kind: { type: 'string' }, name: { type: 'string' }, message: { type: 'string' } },
+  required: ['kind', 'name', 'message'],
+};
+
+const INDEX_REPORT = {
+  type: 'object',
+  properties: {
+    example_count: { type: 'number' },
+    indexed_count: { type: 'number' },
+    phrasing_count: { type: 'number', description: 'Questions plus alternate questions, one vector each' },
+    capacity: { type: 'number' },
+    index_dimension: { type: 'number' },
+    expected_dimension: { type: 'number' },
+    orphan_labels: { type: 'array', items: { type: 'number' } },
+    missing_vectors: STRING_ARRAY,
+  },
+  required: ['example_count', 'indexed_count', 'phrasing_count', 'capacity', 'index_dimension', 'expected_dimension', 'orphan_labels', 'missing_vectors'],
+};
+
+const EMBEDDING = {
+  type: 'object',
+  properties: { provider: { type: 'string' }, model: { type: 'string' }, dimension: { type: 'number' } },
+  required: ['provider'],
+};
+
+export const FIND_SIMILAR_QUERIES_OUTPUT = {
+  type: 'object',
+  properties: {
+    question: { type: 'string' },
+    mode: { type: 'string', enum: SEARCH_MODES },
+    examples: { type: 'array', items: SIMILAR_EXAMPLE },
+  },
+  required: ['question', 'mode', 'examples'],
+};
+
+export const EXAMPLE_OUTPUT = {
+  type: 'object',
+  properties: { example: EXAMPLE },
+  required: ['example'],
+};
+
+export const DELETE_EXAMPLES_OUTPUT = {
+  type: 'object',
+  properties: { deleted: STRING_ARRAY, not_found: STRING_ARRAY, remaining: { type: 'number' } },
+  required: ['deleted', 'not_found', 'remaining'],
+};
+
+export const ADD_ALTERNATE_QUESTIONS_OUTPUT = {
+  type: 'object',
+  properties: {
+    example: EXAMPLE,
+    added: STRING_ARRAY,
+    skipped: { ...STRING_ARRAY, description: 'Phrasings the example already had' },
+  },
+  required: ['example', 'added', 'skipped'],
+};
+
+export const REMOVE_ALTERNATE_QUESTIONS_OUTPUT = {
+  type: 'object',
+  properties: { example: EXAMPLE, removed: STRING_ARRAY, not_found: STRING_ARRAY },
+  required: ['example', 'removed', 'not_found'],
+};
+
+export const LIST_EXAMPLES_OUTPUT = {
+  type: 'object',
+  properties: {
+    total: { type: 'number', description: 'Number of examples in the collection' },
+    matched: { type: 'number', description: 'Number of examples passing the filters and search, on all pages' },
+    examples: { type: 'array', items: EXAMPLE },
+    next_cursor: { type: 'string', description: 'Pass as cursor to list the next page; absent on the last page' },
+  },
+  required: ['total', 'matched', 'examples'],
+};
+
+export const IMPORT_OUTPUT = {
+  type: 'object',
+  properties: {
+    dry_run: { type: 'boolean' },
+    counts: { type: 'object', additionalProperties: { type: 'number' }, description: 'Number of rows per status' },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          row: { type: 'number' },
+          status: { type: 'string', enum: ['added', 'would_add', 'duplicate', 'invalid', 'error'] },
+          id: { type: 'string' },
+          message: { type: 'string' },
+        },
+        required: ['row', 'status'],
+      },
+    },
+  },
+  required: ['dry_run', 'counts', 'rows'],
+};
+
+export const EXPORT_OUTPUT = {
+  type: 'object',
+  properties: {
+    format: { type: 'string' },
+    count: { type: 'number' },
+    path: { type: 'string', description: 'File written, when a path was given' },
+    content: { type: 'string', description: 'The exported data, when no path was given' },
+  },
+  required: ['format', 'count'],
+};
+
+export const VALIDATE_OUTPUT = {
+  type: 'object',
+  properties: {
+    checked: { type: 'number' },
+    skipped: { type: 'number', description: 'Examples in a language without a parser' },
+    invalid: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...EXAMPLE_PROPERTIES, errors: { type: 'array', items: LOCATED_ERROR } },
+        required: ['id', 'question', 'query', 'errors'],
+      },
+    },
+  },
+  required: ['checked', 'skipped', 'invalid'],
+};
+
+export const CHECK_INDEX_OUTPUT = {
+  type: 'object',
+  properties: {
+    consistent: { type: 'boolean', description: 'Whether the index matches the training data (after repairs, if any)' },
+    problems: STRING_ARRAY,
+    repairs: STRING_ARRAY,
+    report: INDEX_REPORT,
+  },
+  required: ['consistent', 'problems', 'report'],
+};
+
+export const CACHE_STATS_OUTPUT = {
+  type: 'object',
+  properties: {
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    hits: { type: 'number' },
+    misses: { type: 'number' },
+    hit_rate: { type: 'number', description: 'Share of lookups served from the cache; absent before the first lookup' },
+    entries: { type: 'number' },
+    size_bytes: { type: 'number' },
+    path: { type: 'string' },
+  },
+  required: ['provider', 'model', 'hits', 'misses', 'entries', 'size_bytes', 'path'],
+};
+
+export const FIND_DUPLICATES_OUTPUT = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['exact', 'near'] },
+    threshold: { type: 'number' },
+    groups: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          examples: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                ...EXAMPLE_PROPERTIES,
+                keep: { type: 'boolean', description: 'Kept by remove_duplicates or merge_duplicates' },
+                remove: { type: 'boolean', description: 'Removed by remove_duplicates, or merged into the kept example by merge_duplicates' },
+                similarity: { type: 'number', description: 'Similarity to the kept example (near mode)' },
+              },
+              required: ['id', 'question', 'query', 'keep', 'remove'],
+            },
+          },
+        },
+        required: ['examples'],
+      },
+    },
+  },
+  required: ['mode', 'groups'],
+};
+
+export const REMOVE_DUPLICATES_OUTPUT = {
+  type: 'object',
+  properties: {
+    confirmed: { type: 'boolean', description: 'False when nothing was done because confirm=true was missing' },
+    removed: STRING_ARRAY,
+    remaining: { type: 'number' },
+  },
+  required: ['confirmed', 'removed', 'remaining'],
+};
+
+export const MERGE_DUPLICATES_OUTPUT = {
+  type: 'object',
+  properties: {
+    confirmed: { type: 'boolean', description: 'False when nothing was done because confirm=true was missing' },
+    merged: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { keep_id: { type: 'string' }, merged_ids: STRING_ARRAY, alternate_questions: STRING_ARRAY },
+        required: ['keep_id', 'merged_ids', 'alternate_questions'],
+      },
+    },
+    remaining: { type: 'number' },
+  },
+  required: ['confirmed', 'merged', 'remaining'],
+};
+
+const COLLECTION = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    embedding: EMBEDDING,
+    example_count: { type: 'number' },
+    active: { type: 'boolean' },
+    read_only: { type: 'boolean', description: 'Locked by another server process' },
+  },
+  required: ['name', 'embedding'],
+};
+
+export const CREATE_COLLECTION_OUTPUT = {
+  type: 'object',
+  properties: { collection: COLLECTION, directory: { type: 'string' } },
+  required: ['collection', 'directory'],
+};
+
+export const LIST_COLLECTIONS_OUTPUT = {
+  type: 'object',
+  properties: { active: { type: 'string' }, collections: { type: 'array', items: COLLECTION } },
+  required: ['active', 'collections'],
+};
+
+export const USE_COLLECTION_OUTPUT = {
+  type: 'object',
+  properties: { active: { type: 'string' }, example_count: { type: 'number' } },
+  required: ['active', 'example_count'],
+};
+
+export const DROP_COLLECTION_OUTPUT = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    dropped: { type: 'boolean', description: 'False when nothing was done because confirm=true was missing' },
+    active: { type: 'string', description: 'The active collection afterwards' },
+  },
+  required: ['name', 'dropped', 'active'],
+};
+
+export const REGISTER_SCHEMA_OUTPUT = {
+  type: 'object',
+  properties: {
+    schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'], additionalProperties: true },
+    collection: { type: 'string' },
+    replaced: { type: 'boolean' },
+    resource: { type: 'string' },
+  },
+  required: ['schema', 'collection', 'replaced', 'resource'],
+};
+
+export const DELETE_SCHEMA_OUTPUT = {
+  type: 'object',
+  properties: { name: { type: 'string' }, collection: { type: 'string' } },
+  required: ['name', 'collection'],
+};
+
+export const CHECK_SCHEMA_OUTPUT = {
+  type: 'object',
+  properties: {
+    checked: { type: 'number' },
+    skipped: { type: 'number', description: 'Queries without a schema for their domain, or in a language that cannot be checked' },
+    flagged: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'The example, unless a query was passed' },
+          query: { type: 'string' },
+          schema: { type: 'string' },
+          issues: { type: 'array', items: SCHEMA_ISSUE },
+        },
+        required: ['query', 'schema', 'issues'],
+      },
+    },
+  },
+  required: ['checked', 'skipped', 'flagged'],
+};
+
+export const CONFIGURE_EXECUTOR_OUTPUT = {
+  type: 'object',
+  properties: {
+    collection: { type: 'string' },
+    type: { type: 'string', description: 'Database type, absent after type=none' },
+    language: { type: 'string', enum: QUERY_LANGUAGES },
+    database: { type: 'string' },
+  },
+  required: ['collection'],
+};
+
+export const EXECUTE_QUERY_OUTPUT = {
+  type: 'object',
+  properties: {
+    database: { type: 'string' },
+    columns: STRING_ARRAY,
+    rows: { type: 'array', items: { type: 'array' } },
+    truncated: { type: 'boolean' },
+    elapsed_ms: { type: 'number' },
+  },
+  required: ['database', 'columns', 'rows', 'truncated', 'elapsed_ms'],
+};
+
+export const VERIFY_OUTPUT = {
+  type: 'object',
+  properties: {
+    database: { type: 'string' },
+    passed: { type: 'number' },
+    failed: { type: 'number' },
+    skipped: { type: 'number', description: 'Selected examples in another language than the database' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          status: { type: 'string', enum: ['pass', 'fail'] },
+          row_count: { type: 'number' },
+          error: { type: 'string' },
+          verified_at: { type: 'string' },
+        },
+        required: ['id', 'status', 'verified_at'],
+      },
+    },
+  },
+  required: ['database', 'passed', 'failed', 'skipped', 'results'],
+};
+
+export const RECORD_FEEDBACK_OUTPUT = {
+  type: 'object',
+  properties: {
+    outcome: { type: 'string' },
+    example_ids: STRING_ARRAY,
+    added_example_id: { type: 'string' },
+    add_error: { type: 'string', description: 'Why the corrected query was not added as an example' },
+  },
+  required: ['outcome', 'example_ids'],
+};
+
+export const EVALUATE_RETRIEVAL_OUTPUT = {
+  type: 'object',
+  properties: {
+    path: { type: 'string', description: 'File the full report was saved to' },
+    previous: { type: 'string', description: 'created_at of the run the summary is compared with' },
+    report: {
+      type: 'object',
+      description: 'The saved report: recall_at_k, mrr, threshold_sweep and per-case results for each configuration',
+      properties: {
+        created_at: { type: 'string' },
+        test_set: { type: 'string' },
+        case_count: { type: 'number' },
+        k_values: { type: 'array', items: { type: 'number' } },
+        results: { type: 'array', items: { type: 'object' } },
+      },
+      required: ['created_at', 'test_set', 'case_count', 'k_values', 'results'],
+      additionalProperties: true,
+    },
+  },
+  required: ['path', 'report'],
+};
+
+const VERSION = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    created_at: { type: 'string' },
+    reason: { type: 'string' },
+    label: { type: 'string' },
+    automatic: { type: 'boolean', description: 'Automatic versions are pruned by the retention policy' },
+    example_count: { type: 'number' },
+  },
+  required: ['id', 'created_at', 'reason', 'automatic', 'example_count'],
+};
+
+export const LIST_VERSIONS_OUTPUT = {
+  type: 'object',
+  properties: {
+    keep_versions: { type: 'number', description: 'Automatic versions kept; 0 when automatic versions are off' },
+    versions: { type: 'array', items: VERSION, description: 'Newest first' },
+  },
+  required: ['keep_versions', 'versions'],
+};
+
+export const CREATE_VERSION_OUTPUT = {
+  type: 'object',
+  properties: { version: VERSION },
+  required: ['version'],
+};
+
+export const DIFF_VERSIONS_OUTPUT = {
+  type: 'object',
+  properties: {
+    from: { type: 'string' },
+    to: { type: 'string' },
+    added: { type: 'array', items: EXAMPLE },
+    removed: { type: 'array', items: EXAMPLE },
+    changed: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          fields: { ...STRING_ARRAY, description: 'Changed fields; metadata keys as metadata.<key>' },
+          from: EXAMPLE,
+          to: EXAMPLE,
+        },
+        required: ['id', 'fields', 'from', 'to'],
+      },
+    },
+  },
+  required: ['from', 'to', 'added', 'removed', 'changed'],
+};
+
+export const ROLLBACK_OUTPUT = {
+  type: 'object',
+  properties: {
+    confirmed: { type: 'boolean' },
+    version: { type: 'string' },
+    restored: { ...STRING_ARRAY, description: 'Examples brought back from the version' },
+    removed: { ...STRING_ARRAY, description: 'Examples added after the version' },
+    reverted: { ...STRING_ARRAY, description: 'Examples changed back to their state in the version' },
+    reembedded: { ...STRING_ARRAY, description: 'Examples whose vector was not in the version and was embedded again' },
+    before_version: { type: 'string', description: 'Version holding the state rolled back from' },
+    after_version: { type: 'string' },
+  },
+  required: ['confirmed', 'version', 'restored', 'removed', 'reverted'],
+};
+
+export const FILL_QUERY_TEMPLATE_OUTPUT = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    query: { type: 'string', description: 'The template with every slot filled in' },
+    bound_query: { type: 'string', description: 'The template with driver placeholders ($name, :name or ?param_name)' },
+    parameters: { type: 'object', additionalProperties: TEMPLATE_VALUE, description: 'Value of each placeholder' },
+    bindings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: TEMPLATE_PARAMETER_TYPES },
+          value: TEMPLATE_VALUE,
+          source: { type: 'string', enum: ['argument', 'question', 'example'] },
+          matched_text: { type: 'string' },
+        },
+        required: ['name', 'type', 'value', 'source'],
+      },
+    },
+  },
+  required: ['id', 'query', 'bound_query', 'parameters', 'bindings'],
+};
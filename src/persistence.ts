@@ -0,0 +1,219 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import { TrainingExample } from './types.js';
+
+// Refresh interval of a held lock, and the age after which a lock whose owner cannot be checked
+// (e.g. one held from another host sharing the data directory) is considered abandoned
+const LOCK_HEARTBEAT_MS = 10000;
+const LOCK_STALE_MS = 60000;
+
+export interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquired_at: string;
+}
+
+// One line of the append-only change log, replayed over the last snapshot on startup
+export type ChangeLogEntry =
+  | { seq: number; op: 'upsert'; example: TrainingExample }
+  | { seq: number; op: 'delete'; id: string };
+
+// Locks still held when the process exits are removed, so a clean shutdown never leaves a stale lock
+const heldLocks = new Set<string>();
+process.on('exit', () => {
+  heldLocks.forEach(lockPath => {
+    try {
+      fs.unlinkSync(lockPath);
+    } catch {
+      // Already gone
+    }
+  });
+});
+
+// Write to a temporary file next to the target and rename it into place, so readers and a
+// crash mid-write only ever see the old or the new content
+export async function writeFileAtomic(filePath: string, write: (tempPath: string) => Promise<void>) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await write(tempPath);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.remove(tempPath);
+    throw error;
+  }
+}
+
+export const writeJsonAtomic = (filePath: string, value: any) =>
+  writeFileAtomic(filePath, tempPath => fs.writeJson(tempPath, value, { spaces: 2 }));
+
+// Entries are appended one line at a time; a line cut short by a crash is skipped when read
+export async function appendChangeLog(logPath: string, entries: ChangeLogEntry[]) {
+  if (entries.length > 0) {
+    await fs.appendFile(logPath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+  }
+}
+
+export async function readChangeLog(logPath: string, afterSeq: number): Promise<ChangeLogEntry[]> {
+  if (!(await fs.pathExists(logPath))) {
+    return [];
+  }
+
+  const entries: ChangeLogEntry[] = [];
+  for (const line of (await fs.readFile(logPath, 'utf8')).split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      const entry: ChangeLogEntry = JSON.parse(line);
+      if (entry.seq > afterSeq) {
+        entries.push(entry);
+      }
+    } catch {
+      console.error(`Skipping unreadable change log entry in ${logPath}`);
+    }
+  }
+  return entries.sort((a, b) => a.seq - b.seq);
+}
+
+// Drop the entries a snapshot already contains
+export async function compactChangeLog(logPath: string, snapshotSeq: number) {
+  const remaining = await readChangeLog(logPath, snapshotSeq);
+  await writeFileAtomic(logPath, tempPath =>
+    fs.writeFile(tempPath, remaining.map(entry => JSON.stringify(entry)).join('\n') + (remaining.length > 0 ? '\n' : ''))
+  );
+}
+
+const isProcessAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to another user
+    return error?.code === 'EPERM';
+  }
+};
+
+// Exclusive lock on a data directory, held by one server process at a time. The lock file
+// records its owner and is touched periodically, so a lock left behind by a crashed process
+// is recognised as stale and taken over.
+export class DirectoryLock {
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private lockPath: string, private onLost: () => void = () => {}) {}
+
+  get held() {
+    return this.heartbeat !== null;
+  }
+
+  async owner(): Promise<LockOwner | undefined> {
+    try {
+      return await fs.readJson(this.lockPath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async tryAcquire(): Promise<boolean> {
+    if (this.held) {
+      return true;
+    }
+
+    const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquired_at: new Date().toISOString() };
+    if (await this.isStale()) {
+      const previous = await this.owner();
+      console.error(`Taking over stale lock ${this.lockPath}${previous ? ` (process ${previous.pid} on ${previous.hostname})` : ''}`);
+      return this.takeOver(owner);
+    }
+
+    try {
+      // 'wx' fails if the file exists, so only one process can create the lock
+      await fs.writeFile(this.lockPath, JSON.stringify(owner), { flag: 'wx' });
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+
+    this.hold();
+    return true;
+  }
+
+  // Replace a stale lock in one step: rename is atomic, so the lock file never goes missing for a
+  // third process to create. When several processes take over at once the last rename wins, and the
+  // others see its owner when they read the lock back.
+  private async takeOver(owner: LockOwner): Promise<boolean> {
+    const tempPath = `${this.lockPath}.${process.pid}.${randomBytes(4).toString('hex')}`;
+    await fs.writeFile(tempPath, JSON.stringify(owner));
+    try {
+      await fs.rename(tempPath, this.lockPath);
+    } catch (error) {
+      await fs.remove(tempPath);
+      throw error;
+    }
+
+    if (!(await this.isOwnedByUs())) {
+      return false;
+    }
+    this.hold();
+    return true;
+  }
+
+  private hold() {
+    heldLocks.add(this.lockPath);
+    this.heartbeat = setInterval(() => this.refresh(), LOCK_HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  async release() {
+    if (!this.held) {
+      return;
+    }
+    this.stopHeartbeat();
+    if (await this.isOwnedByUs()) {
+      await fs.remove(this.lockPath);
+    }
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.heartbeat!);
+    this.heartbeat = null;
+    heldLocks.delete(this.lockPath);
+  }
+
+  private async isOwnedByUs(): Promise<boolean> {
+    const owner = await this.owner();
+    return owner?.pid === process.pid && owner.hostname === os.hostname();
+  }
+
+  private async isStale(): Promise<boolean> {
+    let stats;
+    try {
+      stats = await fs.stat(this.lockPath);
+    } catch {
+      return false;
+    }
+
+    const owner = await this.owner();
+    if (owner && owner.hostname === os.hostname()) {
+      return !isProcessAlive(owner.pid);
+    }
+    return Date.now() - stats.mtimeMs > LOCK_STALE_MS;
+  }
+
+  private async refresh() {
+    try {
+      if (!(await this.isOwnedByUs())) {
+        // Another process took the lock over, e.g. after this one was suspended for too long
+        this.stopHeartbeat();
+        this.onLost();
+        return;
+      }
+      const now = new Date();
+      await fs.utimes(this.lockPath, now, now);
+    } catch (error) {
+      console.error(`Error refreshing lock ${this.lockPath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { QUERY_LANGUAGES, QueryLanguage } from './language.js';
+import { SimilarExample } from './types.js';
+
+export type PromptName = 'generate_query' | 'explain_query' | 'fix_query';
+
+// Number of retrieved examples turned into few-shot turns when the client does not ask for a count
+export const DEFAULT_PROMPT_EXAMPLES = 3;
+export const MAX_PROMPT_EXAMPLES = 10;
+
+const COLLECTION_ARGUMENT = {
+  name: 'collection',
+  description: 'Collection to retrieve examples from (default: the active collection)',
+  required: false,
+};
+
+const LIMIT_ARGUMENT = {
+  name: 'limit',
+  description: `Number of similar examples to include (default: ${DEFAULT_PROMPT_EXAMPLES}, max: ${MAX_PROMPT_EXAMPLES})`,
+  required: false,
+};
+
+const SCHEMA_ARGUMENT = {
+  name: 'schema',
+  description: 'Schema of the target database, or the name of a registered schema (default: the collection-wide registered schema)',
+  required: false,
+};
+
+// Prompt arguments are always strings, so languages are listed in the descriptions
+export const PROMPTS = [
+  {
+    name: 'generate_query',
+    description: 'Write a query for a natural language question, with similar training examples as few-shot turns',
+    arguments: [
+      { name: 'question', description: 'The natural language question to answer', required: true },
+      { name: 'language', description: `Target query language: ${QUERY_LANGUAGES.join(', ')}`, required: true },
+      SCHEMA_ARGUMENT,
+      COLLECTION_ARGUMENT,
+      LIMIT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'explain_query',
+    description: 'Explain what a query does in plain language, with similar training examples as few-shot turns',
+    arguments: [
+      { name: 'query', description: 'The query to explain', required: true },
+      { name: 'language', description: `Query language: ${QUERY_LANGUAGES.join(', ')} (detected when omitted)`, required: false },
+      SCHEMA_ARGUMENT,
+      COLLECTION_ARGUMENT,
+      LIMIT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'fix_query',
+    description: 'Fix a query that fails to parse or returns the wrong results, with similar training examples as few-shot turns',
+    arguments: [
+      { name: 'query', description: 'The broken query', required: true },
+      { name: 'language', description: `Query language: ${QUERY_LANGUAGES.join(', ')} (detected when omitted)`, required: false },
+      { name: 'question', description: 'What the query is meant to answer; used to find similar examples', required: false },
+      { name: 'error', description: 'Error message or description of the wrong result (syntax errors are found automatically)', required: false },
+      SCHEMA_ARGUMENT,
+      COLLECTION_ARGUMENT,
+      LIMIT_ARGUMENT,
+    ],
+  },
+];
+
+export const isPromptName = (value: any): value is PromptName => PROMPTS.some(prompt => prompt.name === value);
+
+const text = (role: PromptMessage['role'], content: string): PromptMessage => ({
+  role,
+  content: { type: 'text', text: content },
+});
+
+const languageName = (language: QueryLanguage | undefined) => {
+  switch (language) {
+    case 'cypher':
+      return 'Cypher';
+    case 'sparql':
+      return 'SPARQL';
+    case 'sql':
+      return 'SQL';
+    case 'gremlin':
+      return 'Gremlin';
+    case 'graphql':
+      return 'GraphQL';
+    default:
+      return 'query';
+  }
+};
+
+const schemaSection = (schema: string | undefined) =>
+  schema ? `\n\nSchema of the target database:\n${schema.trim()}` : '';
+
+// MCP prompts have no system role, so the instructions open the conversation as a user turn
+export function buildGenerateQueryMessages(
+  question: string,
+  language: QueryLanguage,
+  examples: SimilarExample[],
+  schema?: string
+): PromptMessage[] {
+  const name = languageName(language);
+  return [
+    text('user', `You translate natural language questions into ${name} queries. Answer with the ${name} query only, without explanation or code fences. Follow the conventions of the example queries: the same labels, property names and patterns.${schemaSection(schema)}`),
+    ...examples.flatMap(({ example }) => [text('user', example.question), text('assistant', example.query)]),
+    text('user', question),
+  ];
+}
+
+// Each example's question serves as the explanation of its query
+export function buildExplainQueryMessages(
+  query: string,
+  language: QueryLanguage | undefined,
+  examples: SimilarExample[],
+  schema?: string
+): PromptMessage[] {
+  const name = languageName(language);
+  return [
+    text('user', `You explain ${name} queries in plain language. Answer with a short description of what the query returns, in the style of the example answers, followed by any details a reader could miss (filters, joins, ordering, limits).${schemaSection(schema)}`),
+    ...examples.flatMap(({ example }) => [text('user', example.query), text('assistant', example.question)]),
+    text('user', query),
+  ];
+}
+
+export function buildFixQueryMessages(
+  query: string,
+  language: QueryLanguage | undefined,
+  examples: SimilarExample[],
+  options: { question?: string; error?: string; schema?: string } = {}
+): PromptMessage[] {
+  const name = languageName(language);
+  const problem = [
+    options.question ? `The query should answer: ${options.question}` : '',
+    options.error ? `Problem: ${options.error}` : '',
+  ].filter(Boolean).join('\n');
+
+  return [
+    text('user', `You fix broken ${name} queries. Answer with the corrected ${name} query only, without explanation or code fences. The example queries are known to be correct; use them as reference for labels, property names and syntax.${schemaSection(options.schema)}`),
+    ...examples.flatMap(({ example }) => [text('user', example.question), text('assistant', example.query)]),
+    text('user', `Fix this query:\n${query}${problem ? `\n\n${problem}` : ''}`),
+  ];
+}
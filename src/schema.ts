@@ -0,0 +1,392 @@
+import fs from 'fs-extra';
+import sqlParserPkg from 'node-sql-parser';
+import path from 'path';
+import sparqljs from 'sparqljs';
+import { QueryLanguage } from './language.js';
+import { writeJsonAtomic } from './persistence.js';
+
+const { Parser: SqlParser } = sqlParserPkg;
+
+// Schemas are stored one file per schema in this directory of their collection
+const SCHEMAS_DIR = 'schemas';
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const SPARQL_PLACEHOLDER_NAMESPACE = 'urn:query-assistant:undeclared:';
+const MAX_UNDECLARED_PREFIXES = 20;
+
+// What exists in a data source. Only the categories a schema lists are checked, and a label,
+// relationship type or table listed with no properties or columns has its properties left unchecked.
+export interface QuerySchema {
+  name: string;
+  description?: string;
+  // Examples of this domain are checked against this schema; a schema without a domain covers the whole collection
+  domain?: string;
+  // Property graphs (Cypher): label or relationship type -> property names
+  node_labels?: { [label: string]: string[] };
+  relationship_types?: { [type: string]: string[] };
+  // Relational databases (SQL): table (optionally schema-qualified) -> column names
+  tables?: { [table: string]: string[] };
+  // RDF (SPARQL): class and predicate IRIs, written in full or with one of the prefixes
+  classes?: string[];
+  predicates?: string[];
+  prefixes?: { [prefix: string]: string };
+  updated_at?: string;
+}
+
+export type SchemaIssueKind = 'label' | 'relationship_type' | 'property' | 'table' | 'column' | 'class' | 'predicate' | 'syntax';
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  name: string;
+  message: string;
+}
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isStringArrayMap = (value: any) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isStringArray);
+
+// Check an untyped schema definition; returns the problems found
+export function validateSchema(raw: any): string[] {
+  const errors: string[] = [];
+  for (const field of ['node_labels', 'relationship_types', 'tables']) {
+    if (raw[field] !== undefined && !isStringArrayMap(raw[field])) {
+      errors.push(`"${field}" must map names to arrays of strings`);
+    }
+  }
+  for (const field of ['classes', 'predicates']) {
+    if (raw[field] !== undefined && !isStringArray(raw[field])) {
+      errors.push(`"${field}" must be an array of strings`);
+    }
+  }
+  if (
+    raw.prefixes !== undefined &&
+    !(typeof raw.prefixes === 'object' && raw.prefixes !== null && Object.values(raw.prefixes).every(iri => typeof iri === 'string'))
+  ) {
+    errors.push('"prefixes" must map prefixes to IRIs');
+  }
+  if (!['node_labels', 'relationship_types', 'tables', 'classes', 'predicates'].some(field => raw[field] !== undefined)) {
+    errors.push('A schema needs at least one of node_labels, relationship_types, tables, classes or predicates');
+  }
+  return errors;
+}
+
+const schemaPath = (collectionDir: string, name: string) => path.join(collectionDir, SCHEMAS_DIR, `${name}.json`);
+
+export async function readSchemas(collectionDir: string): Promise<QuerySchema[]> {
+  const directory = path.join(collectionDir, SCHEMAS_DIR);
+  if (!(await fs.pathExists(directory))) {
+    return [];
+  }
+
+  const schemas: QuerySchema[] = [];
+  for (const file of (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort()) {
+    try {
+      schemas.push(await fs.readJson(path.join(directory, file)));
+    } catch (error) {
+      console.error(`Skipping unreadable schema ${file}:`, error);
+    }
+  }
+  return schemas;
+}
+
+export async function readSchema(collectionDir: string, name: string): Promise<QuerySchema | undefined> {
+  const file = schemaPath(collectionDir, name);
+  return (await fs.pathExists(file)) ? fs.readJson(file) : undefined;
+}
+
+export async function writeSchema(collectionDir: string, schema: QuerySchema) {
+  await fs.ensureDir(path.join(collectionDir, SCHEMAS_DIR));
+  await writeJsonAtomic(schemaPath(collectionDir, schema.name), schema);
+}
+
+export async function deleteSchema(collectionDir: string, name: string): Promise<boolean> {
+  const file = schemaPath(collectionDir, name);
+  if (!(await fs.pathExists(file))) {
+    return false;
+  }
+  await fs.remove(file);
+  return true;
+}
+
+// The schema of the given domain, falling back to the collection-wide one
+export function findSchemaFor(schemas: QuerySchema[], domain?: string): QuerySchema | undefined {
+  return (domain !== undefined ? schemas.find(schema => schema.domain === domain) : undefined) ||
+    schemas.find(schema => schema.domain === undefined);
+}
+
+// Compact text form of a schema, for prompts
+export function formatSchema(schema: QuerySchema): string {
+  const lines: string[] = [];
+  const describe = (entries: { [name: string]: string[] }, format: (name: string) => string) =>
+    Object.entries(entries).forEach(([name, properties]) =>
+      lines.push(properties.length > 0 ? `${format(name)} {${properties.join(', ')}}` : format(name))
+    );
+
+  if (schema.node_labels) {
+    lines.push('Node labels:');
+    describe(schema.node_labels, label => `  (:${label})`);
+  }
+  if (schema.relationship_types) {
+    lines.push('Relationship types:');
+    describe(schema.relationship_types, type => `  [:${type}]`);
+  }
+  if (schema.tables) {
+    lines.push('Tables:');
+    describe(schema.tables, table => `  ${table}`);
+  }
+  if (schema.prefixes) {
+    lines.push('Prefixes:', ...Object.entries(schema.prefixes).map(([prefix, iri]) => `  ${prefix}: <${iri}>`));
+  }
+  if (schema.classes) {
+    lines.push('Classes:', ...schema.classes.map(name => `  ${name}`));
+  }
+  if (schema.predicates) {
+    lines.push('Predicates:', ...schema.predicates.map(name => `  ${name}`));
+  }
+  return lines.join('\n');
+}
+
+// Flag identifiers the schema does not know. Returns undefined for languages that can't be checked.
+export function checkQueryAgainstSchema(
+  query: string,
+  language: QueryLanguage | undefined,
+  schema: QuerySchema,
+  options: { sqlDialect: string }
+): SchemaIssue[] | undefined {
+  switch (language) {
+    case 'cypher':
+      return checkCypher(query, schema);
+    case 'sql':
+      return checkSql(query, schema, options.sqlDialect);
+    case 'sparql':
+      return checkSparql(query, schema);
+    default:
+      return undefined;
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// "Unknown ..." plus the closest known name, if one is close enough to be a likely typo
+function unknown(kind: SchemaIssueKind, name: string, known: string[], context: string = ''): SchemaIssue {
+  const closest = known
+    .map(candidate => ({ candidate, distance: levenshtein(name.toLowerCase(), candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= Math.max(1, Math.floor(name.length / 3)))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const label = kind.replace('_', ' ');
+  return {
+    kind,
+    name,
+    message: `Unknown ${label} "${name}"${context}${closest ? ` (did you mean "${closest.candidate}"?)` : ''}`,
+  };
+}
+
+const dedupe = (issues: SchemaIssue[]) =>
+  issues.filter((issue, index) => issues.findIndex(other => other.kind === issue.kind && other.message === issue.message) === index);
+
+const stripBackticks = (name: string) => name.replace(/^`|`$/g, '');
+
+function checkCypher(query: string, schema: QuerySchema): SchemaIssue[] {
+  // String literals and comments can contain anything, so they are blanked out first
+  const text = query
+    .replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g, "''")
+    .replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+
+  const issues: SchemaIssue[] = [];
+  const labels = schema.node_labels;
+  const types = schema.relationship_types;
+  // Variable -> the properties its labels or relationship types allow (undefined: not checked)
+  const bindings = new Map<string, string[] | undefined>();
+
+  // Properties allowed on an element with these labels or types (undefined: not checked)
+  const allowedProperties = (names: string[], known: { [name: string]: string[] } | undefined) =>
+    known && names.length > 0 && names.every(name => known[name]?.length)
+      ? names.flatMap(name => known[name])
+      : undefined;
+
+  const checkInlineProperties = (map: string | undefined, allowed: string[] | undefined, owner: string) => {
+    for (const [, property] of (map || '').matchAll(/([A-Za-z_]\w*)\s*:/g)) {
+      if (allowed && !allowed.includes(property)) {
+        issues.push(unknown('property', property, allowed, ` on ${owner}`));
+      }
+    }
+  };
+
+  for (const [, variable, labelList, map] of text.matchAll(/\(\s*([A-Za-z_]\w*)?\s*((?::\s*(?:`[^`]+`|\w+)\s*)+)?(\{[^}]*\})?\s*\)/g)) {
+    const names = (labelList || '').split(':').map(name => stripBackticks(name.trim())).filter(Boolean);
+    if (labels) {
+      names.filter(name => !(name in labels)).forEach(name => issues.push(unknown('label', name, Object.keys(labels))));
+    }
+    const allowed = allowedProperties(names, labels);
+    // A later `(n)` refers back to the labelled pattern that bound n
+    if (variable && (names.length > 0 || !bindings.has(variable))) {
+      bindings.set(variable, allowed);
+    }
+    checkInlineProperties(map, allowed, names.map(name => `:${name}`).join(''));
+  }
+
+  for (const [, variable, typeList, map] of text.matchAll(/\[\s*([A-Za-z_]\w*)?\s*(?::\s*((?:`[^`]+`|\w+)(?:\s*\|\s*:?\s*(?:`[^`]+`|\w+))*))?\s*(?:\*[\d.]*)?\s*(\{[^}]*\})?\s*\]/g)) {
+    const names = (typeList || '').split('|').map(name => stripBackticks(name.replace(':', '').trim())).filter(Boolean);
+    if (types) {
+      names.filter(name => !(name in types)).forEach(name => issues.push(unknown('relationship_type', name, Object.keys(types))));
+    }
+    const allowed = allowedProperties(names, types);
+    if (variable) {
+      bindings.set(variable, allowed);
+    }
+    checkInlineProperties(map, allowed, names.map(name => `:${name}`).join('|'));
+  }
+
+  // Only variables bound to a known label or type are checked; anything else (WITH aliases,
+  // map projections, function namespaces like apoc.coll) is left alone
+  for (const [, variable, property] of text.matchAll(/\b([A-Za-z_]\w*)\.([A-Za-z_]\w*)\b/g)) {
+    const allowed = bindings.get(variable);
+    if (allowed && !allowed.includes(property)) {
+      issues.push(unknown('property', property, allowed, ` on ${variable}`));
+    }
+  }
+
+  return dedupe(issues);
+}
+
+function checkSql(query: string, schema: QuerySchema, dialect: string): SchemaIssue[] {
+  const parser = new SqlParser();
+  let tableRefs: string[];
+  let columnRefs: string[];
+  try {
+    tableRefs = parser.tableList(query, { database: dialect });
+    columnRefs = parser.columnList(query, { database: dialect });
+  } catch (error) {
+    return [{ kind: 'syntax', name: '', message: `Query does not parse: ${error instanceof Error ? error.message.slice(0, 200) : String(error)}` }];
+  }
+
+  const tables = schema.tables;
+  if (!tables) {
+    return [];
+  }
+  const knownTables = Object.keys(tables);
+  // Tables may be registered with or without their schema (`sales.orders` or `orders`)
+  const findTable = (database: string | null, table: string) =>
+    knownTables.find(name => name === table || (database !== null && name === `${database}.${table}`) || name.endsWith(`.${table}`));
+
+  // Names defined by the query itself: CTEs and column aliases
+  const cteNames = [...query.matchAll(/(?:\bWITH(?:\s+RECURSIVE)?|,)\s*([A-Za-z_]\w*)\s+AS\s*\(/gi)].map(match => match[1].toLowerCase());
+  const aliases = [...query.matchAll(/\bAS\s+"?([A-Za-z_]\w*)"?/gi)].map(match => match[1].toLowerCase());
+
+  const issues: SchemaIssue[] = [];
+  const queryTables: string[] = [];
+  for (const ref of tableRefs) {
+    const [, database, table] = ref.split('::');
+    if (cteNames.includes(table.toLowerCase())) {
+      continue;
+    }
+    const known = findTable(database === 'null' ? null : database, table);
+    if (known) {
+      queryTables.push(known);
+    } else {
+      issues.push(unknown('table', table, knownTables));
+    }
+  }
+
+  for (const ref of columnRefs) {
+    const [, table, column] = ref.split('::');
+    if (column === '(.*)' || aliases.includes(column.toLowerCase())) {
+      continue;
+    }
+    if (table !== 'null') {
+      const known = cteNames.includes(table.toLowerCase()) ? undefined : findTable(null, table);
+      const columns = known ? tables[known] : [];
+      if (columns.length > 0 && !columns.includes(column)) {
+        issues.push(unknown('column', column, columns, ` in table ${known}`));
+      }
+      continue;
+    }
+    // Unqualified columns must exist in one of the query's tables
+    const candidates = queryTables.filter(name => tables[name].length > 0);
+    if (candidates.length > 0 && candidates.length === queryTables.length && !candidates.some(name => tables[name].includes(column))) {
+      issues.push(unknown('column', column, candidates.flatMap(name => tables[name]), ` in ${candidates.join(', ')}`));
+    }
+  }
+
+  return dedupe(issues);
+}
+
+function checkSparql(query: string, schema: QuerySchema): SchemaIssue[] {
+  const prefixes = { ...(schema.prefixes || {}) };
+  let parsed: any;
+  for (let attempt = 0; attempt <= MAX_UNDECLARED_PREFIXES && !parsed; attempt++) {
+    try {
+      parsed = new sparqljs.Parser({ prefixes }).parse(query);
+    } catch (error) {
+      const unknownPrefix = error instanceof Error ? error.message.match(/^Unknown prefix: (.*)$/) : null;
+      if (!unknownPrefix) {
+        return [{ kind: 'syntax', name: '', message: `Query does not parse: ${error instanceof Error ? error.message.slice(0, 200) : String(error)}` }];
+      }
+      prefixes[unknownPrefix[1]] = `${SPARQL_PLACEHOLDER_NAMESPACE}${unknownPrefix[1]}:`;
+    }
+  }
+  if (!parsed) {
+    return [];
+  }
+
+  const allPrefixes: { [prefix: string]: string } = { ...prefixes, ...(parsed.prefixes || {}) };
+  const expand = (name: string) => {
+    const match = name.match(/^([\w-]*):(.*)$/);
+    return match && allPrefixes[match[1]] !== undefined && !name.includes('://') ? allPrefixes[match[1]] + match[2] : name;
+  };
+  const compact = (iri: string) => {
+    if (iri.startsWith(SPARQL_PLACEHOLDER_NAMESPACE)) {
+      return iri.slice(SPARQL_PLACEHOLDER_NAMESPACE.length);
+    }
+    const prefix = Object.entries(allPrefixes).find(([, namespace]) => iri.startsWith(namespace));
+    return prefix ? `${prefix[0]}:${iri.slice(prefix[1].length)}` : `<${iri}>`;
+  };
+
+  const predicates: string[] = [];
+  const classes: string[] = [];
+  const namedNodes = (term: any): string[] =>
+    term?.termType === 'NamedNode' ? [term.value] : term?.type === 'path' ? term.items.flatMap(namedNodes) : [];
+  const visit = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (typeof node !== 'object' || node === null) {
+      return;
+    }
+    if (node.subject && node.predicate && node.object) {
+      const used = namedNodes(node.predicate);
+      predicates.push(...used.filter(iri => iri !== RDF_TYPE));
+      if (node.predicate.termType === 'NamedNode' && node.predicate.value === RDF_TYPE && node.object.termType === 'NamedNode') {
+        classes.push(node.object.value);
+      }
+    }
+    Object.values(node).forEach(visit);
+  };
+  visit(parsed.where);
+  visit(parsed.template);
+
+  const issues: SchemaIssue[] = [];
+  const check = (kind: 'class' | 'predicate', used: string[], known: string[] | undefined) => {
+    if (!known) {
+      return;
+    }
+    const expanded = known.map(expand);
+    [...new Set(used)]
+      .filter(iri => !expanded.includes(iri))
+      .forEach(iri => issues.push(unknown(kind, compact(iri), known)));
+  };
+  check('class', classes, schema.classes);
+  check('predicate', predicates, schema.predicates);
+  return issues;
+}
@@ -0,0 +1,30 @@
+// Child process running SQLite queries for SqliteExecutor. better-sqlite3 is synchronous and can't be
+// interrupted, so a query that times out is stopped by killing this process.
+import Database from 'better-sqlite3';
+
+let db: Database.Database | undefined;
+
+process.on('message', ({ query, maxRows }: { query: string; maxRows: number }) => {
+  try {
+    // Opened on the first query, so a missing file is reported like any other query error
+    db ??= new Database(process.argv[2], { readonly: true, fileMustExist: true });
+    const statement = db.prepare(query);
+    if (!statement.reader) {
+      throw new Error('Only statements that return rows can be executed');
+    }
+
+    const rows: unknown[][] = [];
+    let truncated = false;
+    for (const row of statement.raw(true).iterate() as IterableIterator<unknown[]>) {
+      if (rows.length === maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(row.map(value => (Buffer.isBuffer(value) ? `<blob, ${value.length} bytes>` : value)));
+    }
+
+    process.send!({ columns: statement.columns().map(column => column.name), rows, truncated });
+  } catch (error) {
+    process.send!({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
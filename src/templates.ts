@@ -0,0 +1,327 @@
+import { QueryLanguage } from './language.js';
+import { QueryTemplate, TemplateParameter, TemplateParameterType, TrainingExample } from './types.js';
+
+export type TemplateValue = string | number | boolean;
+
+// How a slot got its value: from the caller, from the new question, or kept from the example
+export type BindingSource = 'argument' | 'question' | 'example';
+
+export interface TemplateBinding {
+  name: string;
+  type: TemplateParameterType;
+  value: TemplateValue;
+  source: BindingSource;
+  // The part of the question the value was read from
+  matched_text?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const DURATION_PATTERN = /^\d+\s*(?:minute|hour|day|week|month|year)s?$/i;
+const NUMERIC_PATTERN = /^\d+(?:\.\d+)?$/;
+
+// String, boolean and number literals. SQL doubles quotes inside strings and uses double quotes for
+// identifiers; the other languages escape with a backslash and accept either quote. Numbers that are
+// part of a name, a parameter or a Cypher path length (*1..3) are skipped.
+const NUMBER_LITERAL = '(?<![\\w.$?:*])\\d+(?:\\.\\d+)?(?![\\w.])';
+const SQL_LITERAL = new RegExp(`'(?:[^']|'')*'|\\b(?:true|false)\\b|${NUMBER_LITERAL}`, 'gi');
+const QUOTED_LITERAL = new RegExp(`'(?:[^'\\\\]|\\\\.)*'|"(?:[^"\\\\]|\\\\.)*"|\\b(?:true|false)\\b|${NUMBER_LITERAL}`, 'gi');
+// Numbers that are part of the query's shape rather than a value: ORDER BY 1, VARCHAR(255)
+const STRUCTURAL_NUMBER_CONTEXT = /(?:\b(?:order|group)\s+by\s+[\d\s,]*|\b(?:varchar|char|decimal|numeric)\s*\([\d\s,]*)$/i;
+
+// Slots are named after what their literal is compared with: `o.total > 500` gives "total"
+const COMPARED_NAME = /([a-z_]\w*)["'`\]]?\s*(?:[=<>!:]{1,2}|(?:not\s+)?(?:like|ilike|in|contains)|starts\s+with|ends\s+with)?\s*[(\[]?\s*$/i;
+const BETWEEN_START = /([a-z_]\w*)\s+between\s*$/i;
+const BETWEEN_END = /([a-z_]\w*)\s+between\s+\S+\s+and\s*$/i;
+const IN_LIST_ITEM = /([a-z_]\w*)\s+in\s*[(\[](?:\s*(?:'(?:[^']|'')*'|"[^"]*"|[\d.]+)\s*,)+\s*$/i;
+const TYPED_LITERAL_KEYWORD = /\b(date|timestamp|time|interval)\s*$/i;
+const RESERVED_WORDS = new Set([
+  'and', 'as', 'bind', 'by', 'case', 'contains', 'distinct', 'else', 'end', 'filter', 'from', 'having', 'ilike', 'in',
+  'is', 'join', 'like', 'match', 'not', 'null', 'on', 'or', 'regex', 'return', 'select', 'set', 'then', 'values',
+  'when', 'where', 'with',
+]);
+
+const SLOT_PATTERN = /(['"]?)\{\{(\w+)\}\}\1/g;
+// A slot together with the quotes and, in SPARQL, the datatype or language tag of its literal
+const BOUND_SLOT_PATTERN = /(['"]?)\{\{(\w+)\}\}\1(?:\^\^(?:<[^>]*>|[\w-]*:[\w-]*)|@[a-z]+(?:-[a-z0-9]+)*)?/gi;
+
+// How drivers refer to a bound parameter in each language. SPARQL binds variables, so the name
+// is prefixed to keep it apart from the query's own variables.
+const PLACEHOLDERS: { [language in QueryLanguage]: (name: string) => string } = {
+  cypher: name => `$${name}`,
+  sql: name => `:${name}`,
+  sparql: name => `?param_${name}`,
+  gremlin: name => name,
+  graphql: name => `$${name}`,
+};
+
+interface Literal {
+  type: TemplateParameterType;
+  value: TemplateValue;
+  quote?: string;
+}
+
+function parseLiteral(text: string, language?: QueryLanguage): Literal | undefined {
+  const quote = text[0];
+  if (quote === "'" || quote === '"') {
+    const inner = text.slice(1, -1);
+    const value = language === 'sql' ? inner.replace(/''/g, "'") : inner.replace(/\\(.)/g, '$1');
+    // Empty strings are sentinels (`<> ''`), not values anyone asks for
+    return value === '' ? undefined : { type: DATE_PATTERN.test(value) ? 'date' : 'string', value, quote };
+  }
+  if (/^(?:true|false)$/i.test(text)) {
+    return { type: 'boolean', value: text.toLowerCase() === 'true' };
+  }
+  return { type: 'number', value: Number(text) };
+}
+
+function slotName(before: string): string {
+  const between = before.match(BETWEEN_END) || before.match(BETWEEN_START);
+  if (between) {
+    return `${between[1]}_${before.match(BETWEEN_END) ? 'to' : 'from'}`.toLowerCase();
+  }
+  const listItem = before.match(IN_LIST_ITEM);
+  if (listItem) {
+    return listItem[1].toLowerCase();
+  }
+
+  // `DATE '2024-01-01'` and `INTERVAL '7 days'` are named after what precedes the keyword, or the keyword itself
+  const typed = before.match(TYPED_LITERAL_KEYWORD);
+  const name = (typed ? before.slice(0, typed.index) : before).match(COMPARED_NAME)?.[1]?.toLowerCase();
+  if (name && !RESERVED_WORDS.has(name)) {
+    return name;
+  }
+  return typed ? typed[1].toLowerCase() : 'value';
+}
+
+function uniqueName(base: string, parameters: TemplateParameter[]): string {
+  let name = base;
+  for (let suffix = 2; parameters.some(parameter => parameter.name === name); suffix++) {
+    name = `${base}_${suffix}`;
+  }
+  return name;
+}
+
+// Turn the literals of a query into named, typed slots. A value that occurs more than once becomes
+// a single slot. Returns undefined when the query has no literals.
+export function extractTemplate(query: string, language?: QueryLanguage): QueryTemplate | undefined {
+  const parameters: TemplateParameter[] = [];
+  let templateQuery = '';
+  let last = 0;
+
+  for (const match of query.matchAll(language === 'sql' ? SQL_LITERAL : QUOTED_LITERAL)) {
+    const start = match.index!;
+    const before = query.slice(0, start);
+    const literal = parseLiteral(match[0], language);
+    if (!literal || (literal.type === 'number' && STRUCTURAL_NUMBER_CONTEXT.test(before))) {
+      continue;
+    }
+
+    let parameter = parameters.find(candidate => candidate.type === literal.type && candidate.example_value === literal.value);
+    if (!parameter) {
+      parameter = { name: uniqueName(slotName(before), parameters), type: literal.type, example_value: literal.value };
+      parameters.push(parameter);
+    }
+    const slot = `{{${parameter.name}}}`;
+    templateQuery += query.slice(last, start) + (literal.quote ? `${literal.quote}${slot}${literal.quote}` : slot);
+    last = start + match[0].length;
+  }
+
+  return parameters.length > 0 ? { query: templateQuery + query.slice(last), parameters } : undefined;
+}
+
+// Check an untyped template, e.g. from an imported file; returns the problems found
+export function validateTemplate(raw: any): string[] {
+  if (typeof raw !== 'object' || raw === null || typeof raw.query !== 'string' || !Array.isArray(raw.parameters)) {
+    return ['"template" must be an object with a query and a list of parameters'];
+  }
+  const errors: string[] = [];
+  raw.parameters.forEach((parameter: any, index: number) => {
+    if (typeof parameter?.name !== 'string' || !/^\w+$/.test(parameter.name)) {
+      errors.push(`"template.parameters[${index}].name" must be a word`);
+    } else if (!raw.query.includes(`{{${parameter.name}}}`)) {
+      errors.push(`"template.query" has no slot {{${parameter.name}}}`);
+    }
+    if (coerceTemplateValue(parameter?.type, parameter?.example_value) === undefined) {
+      errors.push(`"template.parameters[${index}]" needs a type of string, number, date or boolean and a matching example_value`);
+    }
+  });
+  return errors;
+}
+
+// A value given for a slot, converted to the slot's type; undefined when it doesn't fit
+export function coerceTemplateValue(type: TemplateParameterType, raw: any): TemplateValue | undefined {
+  switch (type) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean':
+      return typeof raw === 'boolean' ? raw : raw === 'true' ? true : raw === 'false' ? false : undefined;
+    case 'date':
+      return typeof raw === 'string' && DATE_PATTERN.test(raw) ? raw : undefined;
+    case 'string':
+      return typeof raw === 'string' || typeof raw === 'number' ? String(raw) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function quoteValue(value: string, quote: string, language?: QueryLanguage): string {
+  return language === 'sql'
+    ? value.replace(/'/g, "''")
+    : value.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`);
+}
+
+// The template with every slot filled in as a literal, and with every slot as a driver placeholder
+export function renderTemplate(
+  template: QueryTemplate,
+  values: { [name: string]: TemplateValue },
+  language?: QueryLanguage
+): { query: string; boundQuery: string } {
+  const query = template.query.replace(SLOT_PATTERN, (slot, quote: string, name: string) => {
+    if (values[name] === undefined) {
+      return slot;
+    }
+    return quote ? `${quote}${quoteValue(String(values[name]), quote, language)}${quote}` : String(values[name]);
+  });
+  const placeholder = language ? PLACEHOLDERS[language] : PLACEHOLDERS.sql;
+  const boundQuery = template.query.replace(BOUND_SLOT_PATTERN, (_, _quote: string, name: string) => placeholder(name));
+  return { query, boundQuery };
+}
+
+// A value spotted in a question. A relative period ("last 30 days") yields both a date and a
+// duration candidate at the same position, and only one of them can be used.
+interface Candidate {
+  kind: 'string' | 'number' | 'date' | 'duration';
+  value: string | number;
+  text: string;
+  start: number;
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function dateBefore(now: Date, amount: number, unit: string): string {
+  const date = new Date(now);
+  switch (unit) {
+    case 'day':
+      date.setUTCDate(date.getUTCDate() - amount);
+      break;
+    case 'week':
+      date.setUTCDate(date.getUTCDate() - 7 * amount);
+      break;
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() - amount);
+      break;
+    case 'year':
+      date.setUTCFullYear(date.getUTCFullYear() - amount);
+      break;
+  }
+  return isoDate(date);
+}
+
+function questionCandidates(question: string, now: Date): Candidate[] {
+  const candidates: Candidate[] = [];
+  // Matched spans are blanked out, keeping positions, so later patterns don't match inside them
+  let rest = question;
+  const scan = (pattern: RegExp, toCandidates: (match: RegExpMatchArray) => Omit<Candidate, 'text' | 'start'>[]) => {
+    for (const match of rest.matchAll(pattern)) {
+      const start = match.index!;
+      toCandidates(match).forEach(candidate => candidates.push({ ...candidate, text: match[0], start }));
+      rest = rest.slice(0, start) + ' '.repeat(match[0].length) + rest.slice(start + match[0].length);
+    }
+  };
+
+  scan(/"([^"]+)"|'([^']+)'|“([^”]+)”/g, match => [{ kind: 'string', value: match[1] ?? match[2] ?? match[3] }]);
+  scan(/\b\d{4}-\d{2}-\d{2}\b/g, match => [{ kind: 'date', value: match[0] }]);
+  scan(/\b(?:last|past|previous)\s+(\d+)\s+(day|week|month|year)s?\b/gi, match => [
+    { kind: 'date', value: dateBefore(now, Number(match[1]), match[2].toLowerCase()) },
+    { kind: 'duration', value: `${match[1]} ${match[2].toLowerCase()}s` },
+  ]);
+  scan(/\b(?:last|past|previous)\s+(day|week|month|year)\b/gi, match => [
+    { kind: 'date', value: dateBefore(now, 1, match[1].toLowerCase()) },
+    { kind: 'duration', value: `1 ${match[1].toLowerCase()}` },
+  ]);
+  scan(/\b(\d+)\s+(day|week|month|year)s?\s+ago\b/gi, match => [
+    { kind: 'date', value: dateBefore(now, Number(match[1]), match[2].toLowerCase()) },
+  ]);
+  scan(/\btoday\b/gi, () => [{ kind: 'date', value: isoDate(now) }]);
+  scan(/\byesterday\b/gi, () => [{ kind: 'date', value: dateBefore(now, 1, 'day') }]);
+  scan(/(?<![\w.])(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?(?![\w])/g, match => [{ kind: 'number', value: Number(match[0].replace(/,/g, '')) }]);
+  // Capitalized words after the start of a sentence are likely names
+  scan(/(?<=[^.!?\s]\s+)\b[A-Z][\w&'-]*(?:\s+[A-Z][\w&'-]*)*/g, match => [{ kind: 'string', value: match[0] }]);
+
+  return candidates.sort((a, b) => a.start - b.start);
+}
+
+function accepts(parameter: TemplateParameter, candidate: Candidate): boolean {
+  switch (parameter.type) {
+    case 'number':
+      return candidate.kind === 'number';
+    case 'date':
+      return candidate.kind === 'date';
+    case 'string': {
+      const example = String(parameter.example_value);
+      if (DURATION_PATTERN.test(example)) {
+        return candidate.kind === 'duration';
+      }
+      return candidate.kind === 'string' || (candidate.kind === 'number' && NUMERIC_PATTERN.test(example));
+    }
+    default:
+      return false;
+  }
+}
+
+const wordBefore = (text: string, index: number) => text.slice(0, index).match(/(\w+)\W*$/)?.[1]?.toLowerCase();
+
+// The word before the slot's value in the example's own question, e.g. "over" in "orders over 100"
+function cueWord(question: string, value: TemplateValue): string | undefined {
+  const escaped = String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = question.match(new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'i'));
+  return match ? wordBefore(question, match.index!) : undefined;
+}
+
+// Propose a value for each slot of an example's template from a new question. Values given by the
+// caller win; then a slot takes the value found after the same word as in the example's question
+// ("over 100" -> "over 500"), then the first unused value of its type. Slots without a value keep
+// the example's literal.
+export function proposeBindings(
+  example: TrainingExample & { template: QueryTemplate },
+  question: string,
+  values: { [name: string]: TemplateValue } = {},
+  now: Date = new Date()
+): TemplateBinding[] {
+  const candidates = questionCandidates(question, now);
+  const usedPositions = new Set<number>();
+  const chosen = new Map<string, Candidate>();
+  const open = example.template.parameters.filter(parameter => values[parameter.name] === undefined);
+  const take = (parameter: TemplateParameter, candidate: Candidate | undefined) => {
+    if (candidate) {
+      chosen.set(parameter.name, candidate);
+      usedPositions.add(candidate.start);
+    }
+  };
+  const available = (parameter: TemplateParameter) =>
+    candidates.filter(candidate => !usedPositions.has(candidate.start) && accepts(parameter, candidate));
+
+  for (const parameter of open) {
+    const cue = cueWord(example.question, parameter.example_value);
+    take(parameter, cue ? available(parameter).find(candidate => wordBefore(question, candidate.start) === cue) : undefined);
+  }
+  for (const parameter of open.filter(parameter => !chosen.has(parameter.name))) {
+    take(parameter, available(parameter)[0]);
+  }
+
+  return example.template.parameters.map(({ name, type, example_value }) => {
+    if (values[name] !== undefined) {
+      return { name, type, value: values[name], source: 'argument' };
+    }
+    const candidate = chosen.get(name);
+    return candidate
+      ? { name, type, value: coerceTemplateValue(type, candidate.value)!, source: 'question', matched_text: candidate.text }
+      : { name, type, value: example_value, source: 'example' };
+  });
+}
+
+export function formatTemplateParameters(template: QueryTemplate): string {
+  return template.parameters.map(parameter => `${parameter.name} (${parameter.type}, e.g. ${JSON.stringify(parameter.example_value)})`).join(', ');
+}
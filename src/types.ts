@@ -0,0 +1,95 @@
+import { QueryLanguage } from './language.js';
+
+export interface TrainingExample {
+  id: string;
+  question: string;
+  query: string;
+  language?: QueryLanguage;
+  // Other phrasings of the question, e.g. kept when near-duplicates are merged. Each one is embedded
+  // as a vector of its own that points back to the example.
+  alternate_questions?: string[];
+  // The query with its literals turned into typed slots, see fill_query_template
+  template?: QueryTemplate;
+  metadata?: {
+    domain?: string;
+    complexity?: string;
+    created_at?: string;
+    updated_at?: string;
+    tags?: string[];
+    // Result of the last run against the collection's database, see verify_training_data
+    verification?: ExampleVerification;
+    // Outcomes reported with record_feedback, used to boost or demote the example in searches
+    feedback?: ExampleFeedback;
+  };
+}
+
+export type TemplateParameterType = 'string' | 'number' | 'date' | 'boolean';
+
+export const TEMPLATE_PARAMETER_TYPES: TemplateParameterType[] = ['string', 'number', 'date', 'boolean'];
+
+export interface TemplateParameter {
+  name: string;
+  type: TemplateParameterType;
+  // The literal the slot was extracted from, used when a question gives no value for it
+  example_value: string | number | boolean;
+}
+
+// A query whose literals are replaced by {{name}} slots; the quotes around string slots stay in the query
+export interface QueryTemplate {
+  query: string;
+  parameters: TemplateParameter[];
+}
+
+export interface ExampleVerification {
+  status: 'pass' | 'fail';
+  row_count?: number;
+  error?: string;
+  verified_at: string;
+}
+
+export type FeedbackOutcome = 'helpful' | 'not_helpful' | 'corrected';
+
+export const FEEDBACK_OUTCOMES: FeedbackOutcome[] = ['helpful', 'not_helpful', 'corrected'];
+
+export interface ExampleFeedback {
+  helpful: number;
+  not_helpful: number;
+  corrected: number;
+  last_at: string;
+}
+
+// One record_feedback call, as stored in feedback.jsonl
+export interface FeedbackEntry {
+  question: string;
+  example_ids: string[];
+  outcome: FeedbackOutcome;
+  corrected_query?: string;
+  added_example_id?: string;
+  created_at: string;
+}
+
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'lexical', 'hybrid'];
+
+export interface SimilarExample {
+  example: TrainingExample;
+  // Ranking score for the search mode: cosine similarity, normalized BM25 or normalized fused rank
+  similarity: number;
+  vectorSimilarity?: number;
+  lexicalScore?: number;
+  // The phrasing that matched: the question or one of its alternate questions
+  matchedQuestion?: string;
+  // Net feedback in [-1, 1] when the example has any, see applyFeedback
+  feedbackScore?: number;
+}
+
+export interface SearchFilters {
+  language?: QueryLanguage;
+  domain?: string;
+  complexity?: string;
+  tags?: string[];
+  tagsMatch?: 'any' | 'all';
+  createdAfter?: string;
+  createdBefore?: string;
+}
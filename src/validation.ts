@@ -0,0 +1,103 @@
+import { createRequire } from 'module';
+import sqlParserPkg from 'node-sql-parser';
+import sparqljs from 'sparqljs';
+import { QueryLanguage } from './language.js';
+
+const { Parser: SqlParser } = sqlParserPkg;
+
+// The ES module build of the Cypher parser does not resolve under Node, so load the CommonJS one
+const require = createRequire(import.meta.url);
+const { parse: parseCypher } = require('@neo4j-cypher/editor-support') as {
+  parse: (input: string) => { errorListener: { errors: { line: number; col: number; msg: string }[] } };
+};
+
+export interface QuerySyntaxError {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+// Base IRI and placeholder namespace used when parsing SPARQL, so relative IRIs and prefixes
+// predefined by the target endpoint (e.g. wd:, rdfs:) don't count as syntax errors
+const SPARQL_BASE_IRI = 'http://example.org/';
+const MAX_UNDECLARED_PREFIXES = 20;
+
+const sqlParser = new SqlParser();
+
+function validateCypher(query: string): QuerySyntaxError[] {
+  return parseCypher(query).errorListener.errors.map(error => ({
+    line: error.line,
+    column: error.col + 1,
+    message: error.msg,
+  }));
+}
+
+function validateSql(query: string, dialect: string): QuerySyntaxError[] {
+  try {
+    sqlParser.astify(query, { database: dialect });
+    return [];
+  } catch (error: any) {
+    const start = error?.location?.start;
+    return [{
+      line: start?.line ?? 1,
+      column: start?.column ?? 1,
+      // The parser lists every token it would have accepted; keep only the start of that list
+      message: truncate(error instanceof Error ? error.message : String(error)),
+    }];
+  }
+}
+
+function validateSparql(query: string): QuerySyntaxError[] {
+  const prefixes: { [prefix: string]: string } = {};
+
+  for (let attempt = 0; attempt <= MAX_UNDECLARED_PREFIXES; attempt++) {
+    try {
+      new sparqljs.Parser({ baseIRI: SPARQL_BASE_IRI, prefixes }).parse(query);
+      return [];
+    } catch (error: any) {
+      const message: string = error instanceof Error ? error.message : String(error);
+      const unknownPrefix = message.match(/^Unknown prefix: (.*)$/);
+      if (unknownPrefix) {
+        prefixes[unknownPrefix[1]] = `${SPARQL_BASE_IRI}${unknownPrefix[1]}#`;
+        continue;
+      }
+
+      const loc = error?.hash?.loc;
+      const expected: string[] | undefined = error?.hash?.expected;
+      return [{
+        line: loc?.first_line ?? 1,
+        column: (loc?.first_column ?? 0) + 1,
+        message: error?.hash
+          ? truncate(`Unexpected ${error.hash.token === 'EOF' ? 'end of query' : `"${error.hash.text}"`}${expected ? `, expecting ${expected.join(', ')}` : ''}`)
+          : message,
+      }];
+    }
+  }
+
+  return [];
+}
+
+function truncate(message: string, maxLength: number = 200): string {
+  return message.length > maxLength ? `${message.slice(0, maxLength)}...` : message;
+}
+
+// Parse a query in the given language. Returns undefined when there is no parser for the language.
+export function validateQuerySyntax(
+  query: string,
+  language: QueryLanguage | undefined,
+  options: { sqlDialect: string }
+): QuerySyntaxError[] | undefined {
+  switch (language) {
+    case 'cypher':
+      return validateCypher(query);
+    case 'sparql':
+      return validateSparql(query);
+    case 'sql':
+      return validateSql(query, options.sqlDialect);
+    default:
+      return undefined;
+  }
+}
+
+export const formatSyntaxErrors = (errors: QuerySyntaxError[]) =>
+  errors.map(error => `line ${error.line}, column ${error.column}: ${error.message}`).join('; ');
@@ -0,0 +1,199 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs-extra';
+import path from 'path';
+import { writeJsonAtomic } from './persistence.js';
+import { TrainingExample } from './types.js';
+
+// A saved copy of a collection's snapshot: its training data, vector index and index metadata
+export interface VersionManifest {
+  id: string;
+  created_at: string;
+  // What produced the version, e.g. "add example_123" or "on demand"
+  reason: string;
+  label?: string;
+  // Automatic versions are pruned by the retention policy; versions created on demand are kept
+  automatic: boolean;
+  example_count: number;
+  // Last change log entry included in the version
+  log_seq: number;
+}
+
+export interface ExampleChange {
+  id: string;
+  // Changed fields; metadata keys are reported as "metadata.<key>"
+  fields: string[];
+  from: TrainingExample;
+  to: TrainingExample;
+}
+
+export interface VersionDiff {
+  added: TrainingExample[];
+  removed: TrainingExample[];
+  changed: ExampleChange[];
+}
+
+export const VERSIONS_DIR = 'versions';
+// Number of automatic versions kept per collection
+export const DEFAULT_KEEP_VERSIONS = 20;
+// "current" stands for the collection as it is now wherever a version ID is expected
+export const CURRENT_VERSION = 'current';
+const VERSION_ID_PATTERN = /^v(\d+)$/;
+const MANIFEST_FILE = 'version.json';
+// The snapshot files copied into each version
+export const VERSION_FILES = ['training_data.json', 'vector_index.bin', 'vector_index.meta.json'];
+
+// Recorded outcomes rather than edits: they are not versioned, so diffs ignore them and a rollback keeps them
+const RECORDED_OUTCOMES = ['feedback', 'verification'] as const;
+const UNVERSIONED_METADATA: string[] = [...RECORDED_OUTCOMES, 'updated_at'];
+
+export const isVersionId = (value: string) => VERSION_ID_PATTERN.test(value);
+
+const versionNumber = (id: string) => parseInt(id.slice(1), 10);
+
+// Versions of a collection, newest first
+export async function listVersions(collectionDir: string): Promise<VersionManifest[]> {
+  const directory = path.join(collectionDir, VERSIONS_DIR);
+  if (!(await fs.pathExists(directory))) {
+    return [];
+  }
+  const manifests: VersionManifest[] = [];
+  for (const entry of await fs.readdir(directory)) {
+    if (!isVersionId(entry)) {
+      continue;
+    }
+    const manifest = await fs.readJson(path.join(directory, entry, MANIFEST_FILE)).catch(() => undefined);
+    if (manifest) {
+      manifests.push(manifest);
+    }
+  }
+  return manifests.sort((a, b) => versionNumber(b.id) - versionNumber(a.id));
+}
+
+export const versionDir = (collectionDir: string, id: string) => path.join(collectionDir, VERSIONS_DIR, id);
+
+// Copy the snapshot files into a new version. The copy is assembled in a temporary directory and
+// renamed into place, so an interrupted copy never shows up as a version.
+export async function saveVersion(
+  collectionDir: string,
+  details: Omit<VersionManifest, 'id' | 'created_at'>
+): Promise<VersionManifest> {
+  const versions = await listVersions(collectionDir);
+  const id = `v${versions.length > 0 ? versionNumber(versions[0].id) + 1 : 1}`;
+  const manifest: VersionManifest = { id, created_at: new Date().toISOString(), ...details };
+  const target = versionDir(collectionDir, id);
+  const tempDir = `${target}.${process.pid}.tmp`;
+
+  try {
+    await fs.ensureDir(tempDir);
+    for (const file of VERSION_FILES) {
+      const source = path.join(collectionDir, file);
+      if (await fs.pathExists(source)) {
+        await fs.copy(source, path.join(tempDir, file));
+      }
+    }
+    await writeJsonAtomic(path.join(tempDir, MANIFEST_FILE), manifest);
+    await fs.rename(tempDir, target);
+  } catch (error) {
+    await fs.remove(tempDir);
+    throw error;
+  }
+  return manifest;
+}
+
+// Delete automatic versions beyond the newest `keep`
+export async function pruneVersions(collectionDir: string, keep: number): Promise<string[]> {
+  const pruned = (await listVersions(collectionDir)).filter(version => version.automatic).slice(keep);
+  for (const version of pruned) {
+    await fs.remove(versionDir(collectionDir, version.id));
+  }
+  return pruned.map(version => version.id);
+}
+
+export async function readVersion(
+  collectionDir: string,
+  id: string
+): Promise<{ manifest: VersionManifest; examples: TrainingExample[] }> {
+  const directory = versionDir(collectionDir, id);
+  if (!isVersionId(id) || !(await fs.pathExists(path.join(directory, MANIFEST_FILE)))) {
+    throw new McpError(ErrorCode.InvalidParams, `Version not found: ${id}`);
+  }
+  const manifest: VersionManifest = await fs.readJson(path.join(directory, MANIFEST_FILE));
+  const dataFile = path.join(directory, 'training_data.json');
+  const examples: TrainingExample[] = (await fs.pathExists(dataFile)) ? await fs.readJson(dataFile) : [];
+  return { manifest, examples };
+}
+
+const sameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+function changedFields(from: TrainingExample, to: TrainingExample): string[] {
+  const fields: string[] = (['question', 'alternate_questions', 'query', 'language', 'template'] as const)
+    .filter(field => !sameValue(from[field], to[field]));
+  const before: { [key: string]: any } = from.metadata || {};
+  const after: { [key: string]: any } = to.metadata || {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!UNVERSIONED_METADATA.includes(key) && !sameValue(before[key], after[key])) {
+      fields.push(`metadata.${key}`);
+    }
+  }
+  return fields;
+}
+
+// Examples added, removed and changed going from one set of examples to another, matched by ID
+export function diffExamples(from: TrainingExample[], to: TrainingExample[]): VersionDiff {
+  const before = new Map(from.map(example => [example.id, example]));
+  const after = new Set(to.map(example => example.id));
+  const diff: VersionDiff = { added: [], removed: [], changed: [] };
+
+  for (const example of to) {
+    const previous = before.get(example.id);
+    if (!previous) {
+      diff.added.push(example);
+      continue;
+    }
+    const fields = changedFields(previous, example);
+    if (fields.length > 0) {
+      diff.changed.push({ id: example.id, fields, from: previous, to: example });
+    }
+  }
+  diff.removed = from.filter(example => !after.has(example.id));
+  return diff;
+}
+
+// A version's copy of an example, carrying over the recorded outcomes of the current one
+export function withRecordedOutcomes(restored: TrainingExample, current: TrainingExample): TrainingExample {
+  const metadata: { [key: string]: any } = { ...restored.metadata };
+  for (const key of RECORDED_OUTCOMES) {
+    if (current.metadata?.[key] !== undefined) {
+      metadata[key] = current.metadata[key];
+    } else {
+      delete metadata[key];
+    }
+  }
+  return { ...restored, metadata };
+}
+
+export const diffIsEmpty = (diff: VersionDiff) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+
+export function formatVersion(version: VersionManifest): string {
+  return `${version.id} (${version.created_at}) ${version.reason}${version.label ? ` "${version.label}"` : ''}: ${version.example_count} examples`;
+}
+
+export function formatDiff(diff: VersionDiff, from: string, to: string): string {
+  if (diffIsEmpty(diff)) {
+    return `No differences between ${from} and ${to}`;
+  }
+  const lines = [
+    `From ${from} to ${to}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`,
+  ];
+  for (const example of diff.added) {
+    lines.push(`+ ${example.id}: ${example.question}`);
+  }
+  for (const example of diff.removed) {
+    lines.push(`- ${example.id}: ${example.question}`);
+  }
+  for (const change of diff.changed) {
+    lines.push(`~ ${change.id}: ${change.to.question} (${change.fields.join(', ')})`);
+  }
+  return lines.join('\n');
+}